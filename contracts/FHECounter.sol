@@ -27,6 +27,9 @@ contract FHECounter is SepoliaConfig {
     euint32 private _count;
     address public owner;
 
+    // requestId => requester, cleared once the callback is processed
+    mapping(uint256 => address) private pendingDecryptions;
+
     event CounterIncremented(address indexed caller);
     event CounterDecremented(address indexed caller);
     event CounterReset(address indexed caller);
@@ -168,12 +171,15 @@ contract FHECounter is SepoliaConfig {
      * through the callback mechanism. The decryption happens
      * asynchronously and the result is returned via callback.
      */
-    function requestCountDecryption() external {
+    function requestCountDecryption() external returns (uint256 requestId) {
         require(msg.sender == owner, "Only owner can request decryption");
 
         bytes32[] memory cts = new bytes32[](1);
         cts[0] = FHE.toBytes32(_count);
-        FHE.requestDecryption(cts, this.processCountDecryption.selector);
+        requestId = FHE.requestDecryption(cts, this.processCountDecryption.selector);
+        pendingDecryptions[requestId] = msg.sender;
+
+        emit CountDecryptionRequested(requestId, msg.sender);
     }
 
     /**
@@ -184,19 +190,24 @@ contract FHECounter is SepoliaConfig {
      *
      * ## Pattern: Decryption Callback
      * This is called by the network after decryption is complete.
-     * In production, signature verification would validate the result.
+     * Only pending request IDs are accepted, and FHE.checkSignatures
+     * reverts unless the KMS signatures validate the result.
      */
     function processCountDecryption(
         uint256 requestId,
         uint32 decryptedCount,
         bytes[] memory signatures
     ) external {
-        // In production, verify signatures here
-        // For this example, we trust the decrypted value
+        address requester = pendingDecryptions[requestId];
+        require(requester != address(0), "Unknown or processed decryption request");
+
+        FHE.checkSignatures(requestId, signatures);
+        delete pendingDecryptions[requestId];
 
         // Emit event so off-chain systems know the count
-        emit CountDecrypted(requestId, decryptedCount);
+        emit CountDecrypted(requestId, requester, decryptedCount);
     }
 
-    event CountDecrypted(uint256 indexed requestId, uint32 decryptedValue);
+    event CountDecryptionRequested(uint256 indexed requestId, address indexed requester);
+    event CountDecrypted(uint256 indexed requestId, address indexed requester, uint32 decryptedValue);
 }
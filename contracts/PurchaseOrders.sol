@@ -0,0 +1,291 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { SupplierManagement } from "./SupplierManagement.sol";
+import { SupplierManagementBase } from "./SupplierManagementBase.sol";
+
+/**
+ * @title Purchase Orders
+ * @notice Confidential purchase orders and per-supplier budgets over suppliers registered in SupplierManagement
+ * @dev Order amounts, budgets and cumulative spend are encrypted euint64 values
+ *
+ * ## Overview
+ * Admins and procurement managers of a supplier's organization set an
+ * encrypted budget per supplier and raise orders against it. Each order adds its encrypted amount to the
+ * supplier's encrypted cumulative spend, unless that would exceed the
+ * budget: then the order is kept but its amount becomes zero. Orders move
+ * through Created -> Approved -> Delivered -> Paid.
+ *
+ * ## Key Concepts Demonstrated
+ * - Encrypted 64-bit amounts (externalEuint64)
+ * - Budget enforcement with FHE.le / FHE.select instead of a revert
+ * - Sharing encrypted totals with every current buyer role
+ * - Cross-contract authorization against SupplierManagement roles and supplier state
+ */
+contract PurchaseOrders is SepoliaConfig {
+    enum OrderStatus {
+        None,
+        Created,
+        Approved,
+        Delivered,
+        Paid
+    }
+
+    struct PurchaseOrder {
+        uint256 supplierId;
+        address buyer;
+        OrderStatus status;
+        uint64 createdAt;
+        euint64 amount; // zero if the order would have exceeded the budget
+        ebool withinBudget; // whether the requested amount was accepted
+    }
+
+    SupplierManagement public immutable supplierManagement;
+
+    mapping(uint256 => PurchaseOrder) private orders;
+    uint256 public orderCount;
+
+    // supplierId => encrypted budget cap and cumulative spend (admins and managers can decrypt)
+    mapping(uint256 => euint64) private budgets;
+    mapping(uint256 => euint64) private spend;
+    mapping(uint256 => bool) public hasBudget;
+
+    event BudgetSet(uint256 indexed supplierId, address indexed setBy);
+    event OrderCreated(uint256 indexed orderId, uint256 indexed supplierId, address indexed buyer);
+    event OrderApproved(uint256 indexed orderId, address indexed approver);
+    event OrderDelivered(uint256 indexed orderId, uint256 indexed supplierId);
+    event OrderPaid(uint256 indexed orderId, address indexed payer);
+
+    constructor(SupplierManagement _supplierManagement) {
+        supplierManagement = _supplierManagement;
+    }
+
+    /**
+     * @dev Set the encrypted spend cap for a supplier (admin or procurement manager)
+     * @param _supplierId The supplier ID
+     * @param _encryptedBudget Budget cap, encrypted by the client
+     * @param _inputProof Proof of correct encryption
+     *
+     * Replacing a budget keeps the cumulative spend recorded so far. A new
+     * budget below that spend is raised to it, leaving nothing to spend:
+     * createOrder relies on spend never exceeding the budget.
+     */
+    function setBudget(uint256 _supplierId, externalEuint64 _encryptedBudget, bytes calldata _inputProof) external {
+        require(_isBuyer(_supplierId, msg.sender), "Only admin or manager can set budgets");
+        require(supplierManagement.supplierExists(_supplierId), "Supplier not registered");
+
+        euint64 budget = FHE.fromExternal(_encryptedBudget, _inputProof);
+        if (hasBudget[_supplierId]) {
+            budget = FHE.max(budget, spend[_supplierId]);
+        } else {
+            spend[_supplierId] = FHE.asEuint64(0);
+            _allowBuyers(spend[_supplierId], _supplierId);
+            hasBudget[_supplierId] = true;
+        }
+        _allowBuyers(budget, _supplierId);
+        budgets[_supplierId] = budget;
+
+        emit BudgetSet(_supplierId, msg.sender);
+    }
+
+    /**
+     * @dev Create an order against a supplier's budget (admin or procurement manager)
+     * @param _supplierId Approved supplier with a budget
+     * @param _encryptedAmount Order amount, encrypted by the client
+     * @param _inputProof Proof of correct encryption
+     * @return orderId ID of the new order
+     *
+     * ## Pattern: Encrypted Budget Cap
+     * A revert on "over budget" would tell everyone that spend plus amount
+     * exceeds the cap. Instead FHE.le yields an encrypted verdict, and
+     * FHE.select applies either the full amount or nothing: the order is
+     * always created, and an over-budget order simply carries a zero amount.
+     * Only the buyer, the supplier owner and buyer roles can decrypt it.
+     */
+    function createOrder(
+        uint256 _supplierId,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof
+    ) external returns (uint256 orderId) {
+        require(_isBuyer(_supplierId, msg.sender), "Only admin or manager can create orders");
+        address supplierOwner = _requireApprovedSupplier(_supplierId);
+        require(hasBudget[_supplierId], "No budget for supplier");
+
+        euint64 requested = FHE.fromExternal(_encryptedAmount, _inputProof);
+        // Compare against the remaining budget: spend + requested could wrap around 2^64
+        // and pass the check. Spend never exceeds the budget, so the subtraction cannot.
+        ebool withinBudget = FHE.le(requested, FHE.sub(budgets[_supplierId], spend[_supplierId]));
+
+        euint64 amount = FHE.select(withinBudget, requested, FHE.asEuint64(0));
+        spend[_supplierId] = FHE.add(spend[_supplierId], amount);
+
+        _allowBuyers(spend[_supplierId], _supplierId);
+        _allowBuyers(amount, _supplierId);
+        FHE.allow(amount, supplierOwner);
+        FHE.allowThis(withinBudget);
+        FHE.allow(withinBudget, msg.sender);
+
+        orderId = ++orderCount;
+        orders[orderId] = PurchaseOrder({
+            supplierId: _supplierId,
+            buyer: msg.sender,
+            status: OrderStatus.Created,
+            createdAt: uint64(block.timestamp),
+            amount: amount,
+            withinBudget: withinBudget
+        });
+
+        emit OrderCreated(orderId, _supplierId, msg.sender);
+    }
+
+    /**
+     * @dev Approve a created order (admin or procurement manager)
+     * @param _orderId The order ID
+     */
+    function approveOrder(uint256 _orderId) external {
+        PurchaseOrder storage order = _getOrder(_orderId);
+        require(_isBuyer(order.supplierId, msg.sender), "Only admin or manager can approve");
+        require(order.status == OrderStatus.Created, "Order is not awaiting approval");
+
+        order.status = OrderStatus.Approved;
+
+        emit OrderApproved(_orderId, msg.sender);
+    }
+
+    /**
+     * @dev Confirm delivery of an approved order (supplier owner only)
+     * @param _orderId The order ID
+     */
+    function markDelivered(uint256 _orderId) external {
+        PurchaseOrder storage order = _getOrder(_orderId);
+        require(_supplierOwner(order.supplierId) == msg.sender, "Only supplier owner can confirm delivery");
+        require(order.status == OrderStatus.Approved, "Order is not approved");
+
+        order.status = OrderStatus.Delivered;
+
+        emit OrderDelivered(_orderId, order.supplierId);
+    }
+
+    /**
+     * @dev Record payment of a delivered order (admin or procurement manager)
+     * @param _orderId The order ID
+     */
+    function markPaid(uint256 _orderId) external {
+        PurchaseOrder storage order = _getOrder(_orderId);
+        require(_isBuyer(order.supplierId, msg.sender), "Only admin or manager can pay");
+        require(order.status == OrderStatus.Delivered, "Order is not delivered");
+
+        order.status = OrderStatus.Paid;
+
+        emit OrderPaid(_orderId, msg.sender);
+    }
+
+    /**
+     * @dev Get public order details
+     * @param _orderId The order ID
+     */
+    function getOrder(uint256 _orderId)
+        external
+        view
+        returns (uint256 supplierId, address buyer, OrderStatus status, uint64 createdAt)
+    {
+        PurchaseOrder storage order = _getOrder(_orderId);
+        return (order.supplierId, order.buyer, order.status, order.createdAt);
+    }
+
+    /**
+     * @dev Get the encrypted amount of an order (buyer roles and the supplier owner can decrypt)
+     * @param _orderId The order ID
+     */
+    function getOrderAmount(uint256 _orderId) external view returns (euint64) {
+        return _getOrder(_orderId).amount;
+    }
+
+    /**
+     * @dev Get whether an order fit the budget when created (only the ordering buyer can decrypt)
+     * @param _orderId The order ID
+     */
+    function getOrderWithinBudget(uint256 _orderId) external view returns (ebool) {
+        return _getOrder(_orderId).withinBudget;
+    }
+
+    /**
+     * @dev Get a supplier's encrypted budget cap (buyer roles can decrypt)
+     * @param _supplierId The supplier ID
+     */
+    function getBudget(uint256 _supplierId) external view returns (euint64) {
+        require(hasBudget[_supplierId], "No budget for supplier");
+        return budgets[_supplierId];
+    }
+
+    /**
+     * @dev Get a supplier's encrypted cumulative spend (buyer roles can decrypt)
+     * @param _supplierId The supplier ID
+     */
+    function getSpend(uint256 _supplierId) external view returns (euint64) {
+        require(hasBudget[_supplierId], "No budget for supplier");
+        return spend[_supplierId];
+    }
+
+    /**
+     * @dev Supplier IDs carry their organization in the high 128 bits
+     */
+    function _orgOf(uint256 _supplierId) internal pure returns (uint256) {
+        return _supplierId >> 128;
+    }
+
+    function _getOrder(uint256 _orderId) internal view returns (PurchaseOrder storage order) {
+        order = orders[_orderId];
+        require(order.status != OrderStatus.None, "Order does not exist");
+    }
+
+    /**
+     * @dev Revert unless the supplier is registered and approved; returns its owner
+     */
+    function _requireApprovedSupplier(uint256 _supplierId) internal view returns (address) {
+        require(supplierManagement.supplierExists(_supplierId), "Supplier not registered");
+
+        (, , , , , address supplierOwner, SupplierManagementBase.SupplierState state) = supplierManagement
+            .getSupplier(_supplierId);
+        require(state == SupplierManagementBase.SupplierState.Approved, "Supplier not approved");
+
+        return supplierOwner;
+    }
+
+    function _supplierOwner(uint256 _supplierId) internal view returns (address supplierOwner) {
+        (, , , , , supplierOwner, ) = supplierManagement.getSupplier(_supplierId);
+    }
+
+    /**
+     * @dev Admin or procurement manager of the supplier's organization
+     */
+    function _isBuyer(uint256 _supplierId, address _account) internal view returns (bool) {
+        uint256 orgId = _orgOf(_supplierId);
+        return
+            supplierManagement.hasRole(orgId, supplierManagement.ADMIN_ROLE(), _account) ||
+            supplierManagement.hasRole(orgId, supplierManagement.PROCUREMENT_MANAGER_ROLE(), _account);
+    }
+
+    /**
+     * @dev Grant the contract and every current admin and procurement manager of the supplier's organization
+     * access to a handle
+     */
+    function _allowBuyers(euint64 _value, uint256 _supplierId) internal {
+        FHE.allowThis(_value);
+
+        uint256 orgId = _orgOf(_supplierId);
+        address[] memory admins = supplierManagement.getRoleMembers(orgId, supplierManagement.ADMIN_ROLE());
+        for (uint256 i = 0; i < admins.length; i++) {
+            FHE.allow(_value, admins[i]);
+        }
+        address[] memory managers = supplierManagement.getRoleMembers(
+            orgId,
+            supplierManagement.PROCUREMENT_MANAGER_ROLE()
+        );
+        for (uint256 i = 0; i < managers.length; i++) {
+            FHE.allow(_value, managers[i]);
+        }
+    }
+}
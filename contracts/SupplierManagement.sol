@@ -1,75 +1,78 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint8, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint16, ebool, externalEuint8, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { SupplierManagementBase } from "./SupplierManagementBase.sol";
 
-contract SupplierManagement is SepoliaConfig {
-    struct Supplier {
-        string name;
-        string category;
-        string contact;
-        euint8 rating; // FHE encrypted rating (1-10)
-        bool isPreferred; // Preferred supplier status (non-encrypted for simplicity)
-        address owner;
-        bool exists;
-    }
-
-    mapping(uint256 => Supplier) private suppliers;
-    uint256 public supplierCount;
+contract SupplierManagement is SepoliaConfig, SupplierManagementBase {
+    // Implements the entry points that do not fit in this contract; see fallback()
+    address public immutable extension;
 
-    // Events
-    event SupplierAdded(uint256 indexed supplierId, string name, address indexed owner);
-    event SupplierRatingUpdated(uint256 indexed supplierId, address indexed updater);
-    event SupplierPreferenceUpdated(uint256 indexed supplierId, address indexed updater);
-    event RatingDecrypted(address indexed owner, uint8 rating);
-
-    constructor() {}
+    constructor(address _extension) {
+        extension = _extension;
+        _createOrganization("Default");
+    }
 
     /**
      * @dev Add a new supplier with FHE encrypted sensitive data
+     * @param _orgId Organization the supplier registers with
      * @param _name Supplier name (public)
      * @param _category Supplier category (public)
-     * @param _contact Contact information (public)
+     * @param _contact Hash and pointer of the off-chain encrypted contact blob
      * @param _rating Quality rating 1-10 (will be encrypted)
      * @param _isPreferred Preferred supplier status (will be encrypted)
+     *
+     * Note: the plaintext rating and preference are visible in calldata. Prefer
+     * the encrypted-input overload, which keeps both confidential end to end.
      */
     function addSupplier(
+        uint256 _orgId,
         string memory _name,
         string memory _category,
-        string memory _contact,
+        ContactCommitment memory _contact,
         uint8 _rating,
         bool _isPreferred
     ) external {
         require(_rating >= 1 && _rating <= 10, "Rating must be between 1 and 10");
-        require(bytes(_name).length > 0, "Name cannot be empty");
-        require(bytes(_category).length > 0, "Category cannot be empty");
-
-        supplierCount++;
 
         // FHE encryption happens here - frontend sends plaintext, contract encrypts
-        euint8 encryptedRating = FHE.asEuint8(_rating);
-
-        // Set FHE permissions for the owner (only for rating)
-        FHE.allowThis(encryptedRating);
-        FHE.allow(encryptedRating, msg.sender);
-
-        suppliers[supplierCount] = Supplier({
-            name: _name,
-            category: _category,
-            contact: _contact,
-            rating: encryptedRating,
-            isPreferred: _isPreferred, // Store as regular boolean
-            owner: msg.sender,
-            exists: true
-        });
+        _addSupplier(_orgId, _name, _category, _contact, FHE.asEuint8(_rating), FHE.asEbool(_isPreferred));
+    }
 
-        emit SupplierAdded(supplierCount, _name, msg.sender);
+    /**
+     * @dev Add a new supplier with rating and preference encrypted client-side
+     * @param _orgId Organization the supplier registers with
+     * @param _name Supplier name (public)
+     * @param _category Supplier category (public)
+     * @param _contact Hash and pointer of the off-chain encrypted contact blob
+     * @param _encryptedRating Quality rating 1-10, encrypted by the client
+     * @param _encryptedPreferred Preferred supplier status, encrypted by the client
+     * @param _inputProof Proof of correct encryption (covers both inputs)
+     *
+     * ## Pattern: External Encrypted Input
+     * Neither value appears in plaintext on-chain. Since an encrypted
+     * rating cannot be range-checked with require, it is clamped into 1-10.
+     */
+    function addSupplier(
+        uint256 _orgId,
+        string memory _name,
+        string memory _category,
+        ContactCommitment memory _contact,
+        externalEuint8 _encryptedRating,
+        externalEbool _encryptedPreferred,
+        bytes calldata _inputProof
+    ) external {
+        euint8 rating = FHE.fromExternal(_encryptedRating, _inputProof);
+        ebool isPreferred = FHE.fromExternal(_encryptedPreferred, _inputProof);
+        _addSupplier(_orgId, _name, _category, _contact, _clampRating(rating), isPreferred);
     }
 
     /**
      * @dev Get supplier information (public data only, rating decryption via separate function)
      * @param _supplierId The supplier ID to query
+     *
+     * Note: isPreferred is returned as an encrypted handle; only ACL-allowed addresses can decrypt it.
      */
     function getSupplier(uint256 _supplierId)
         external
@@ -77,14 +80,14 @@ contract SupplierManagement is SepoliaConfig {
         returns (
             string memory name,
             string memory category,
-            string memory contact,
+            ContactCommitment memory contact,
             uint8 rating,
-            bool isPreferred,
-            address owner
+            ebool isPreferred,
+            address owner,
+            SupplierState state
         )
     {
-        require(_supplierId > 0 && _supplierId <= supplierCount, "Invalid supplier ID");
-        require(suppliers[_supplierId].exists, "Supplier does not exist");
+        _requireExists(_supplierId);
 
         Supplier storage supplier = suppliers[_supplierId];
 
@@ -95,91 +98,334 @@ contract SupplierManagement is SepoliaConfig {
             supplier.contact,
             0, // Rating requires separate decryption call
             supplier.isPreferred,
-            supplier.owner
+            supplier.owner,
+            supplier.state
         );
     }
 
     /**
-     * @dev Update supplier rating (only owner)
+     * @dev Move a supplier through its lifecycle
+     * @param _supplierId The supplier ID
+     * @param _newState Target state
+     * @param _reasonCode Non-zero reason code recorded in the event (e.g. keccak256("AUDIT_FAILED"))
+     *
+     * Allowed transitions:
+     * - Pending -> Approved, Approved -> Suspended, Suspended -> Approved (admin or manager)
+     * - Pending/Approved/Suspended -> Archived (admin only)
+     * Archived suppliers can no longer be rated, updated or compared.
+     */
+    function setSupplierState(uint256 _supplierId, SupplierState _newState, bytes32 _reasonCode) external {
+        _requireActive(_supplierId);
+        require(_reasonCode != bytes32(0), "Reason code required");
+
+        SupplierState current = suppliers[_supplierId].state;
+        if (_newState == SupplierState.Archived) {
+            require(hasRole(_orgOf(_supplierId), ADMIN_ROLE, msg.sender), "Only admin can archive");
+        } else {
+            require(_isManager(_orgOf(_supplierId), msg.sender), "Only admin or manager can change state");
+            require(
+                (current == SupplierState.Pending && _newState == SupplierState.Approved) ||
+                    (current == SupplierState.Approved && _newState == SupplierState.Suspended) ||
+                    (current == SupplierState.Suspended && _newState == SupplierState.Approved),
+                "Invalid state transition"
+            );
+        }
+
+        suppliers[_supplierId].state = _newState;
+
+        emit SupplierStateChanged(_supplierId, current, _newState, _reasonCode, msg.sender);
+    }
+
+    /**
+     * @dev Update supplier rating (owner or manager)
      * @param _supplierId The supplier ID to update
      * @param _newRating New rating value (1-10)
      */
     function updateSupplierRating(uint256 _supplierId, uint8 _newRating) external {
-        require(_supplierId > 0 && _supplierId <= supplierCount, "Invalid supplier ID");
-        require(suppliers[_supplierId].exists, "Supplier does not exist");
-        require(suppliers[_supplierId].owner == msg.sender, "Only owner can update");
+        _requireOwner(_supplierId);
         require(_newRating >= 1 && _newRating <= 10, "Rating must be between 1 and 10");
 
         // Update with FHE encryption
-        euint8 encryptedRating = FHE.asEuint8(_newRating);
-        FHE.allowThis(encryptedRating);
-        FHE.allow(encryptedRating, msg.sender);
+        _setRating(_supplierId, FHE.asEuint8(_newRating), bytes32(0));
+    }
+
+    /**
+     * @dev Update supplier rating with a value encrypted client-side (owner or manager)
+     * @param _supplierId The supplier ID to update
+     * @param _encryptedRating New rating value (1-10), encrypted by the client
+     * @param _inputProof Proof of correct encryption
+     */
+    function updateSupplierRating(
+        uint256 _supplierId,
+        externalEuint8 _encryptedRating,
+        bytes calldata _inputProof
+    ) external {
+        updateSupplierRating(_supplierId, _encryptedRating, _inputProof, bytes32(0));
+    }
+
+    /**
+     * @dev Update supplier rating with a client-side encrypted value and record why (owner or manager)
+     * @param _supplierId The supplier ID to update
+     * @param _encryptedRating New rating value (1-10), encrypted by the client
+     * @param _inputProof Proof of correct encryption
+     * @param _reasonHash Hash of the off-chain justification, stored in the rating history
+     */
+    function updateSupplierRating(
+        uint256 _supplierId,
+        externalEuint8 _encryptedRating,
+        bytes calldata _inputProof,
+        bytes32 _reasonHash
+    ) public {
+        _requireOwner(_supplierId);
+
+        euint8 rating = FHE.fromExternal(_encryptedRating, _inputProof);
+        _setRating(_supplierId, _clampRating(rating), _reasonHash);
+    }
+
+    /**
+     * @dev Number of recorded rating versions for a supplier
+     */
+    function getRatingHistoryLength(uint256 _supplierId) external view returns (uint256) {
+        _requireExists(_supplierId);
+        return ratingHistory[_supplierId].length;
+    }
+
+    /**
+     * @dev Page through a supplier's rating history, oldest first
+     * @param _supplierId The supplier ID to query
+     * @param _offset Index of the first version to return
+     * @param _limit Maximum number of versions to return
+     * Note: the owner and decryptor roles (e.g. auditors) can decrypt every historical rating.
+     */
+    function getRatingHistory(
+        uint256 _supplierId,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (RatingHistoryEntry[] memory entries) {
+        _requireExists(_supplierId);
+
+        RatingHistoryEntry[] storage history = ratingHistory[_supplierId];
+        if (_offset >= history.length) {
+            return entries;
+        }
+
+        uint256 end = _offset + _limit > history.length ? history.length : _offset + _limit;
+        entries = new RatingHistoryEntry[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            entries[i - _offset] = history[i];
+        }
+    }
+
+    /**
+     * @dev Compute the encrypted change of the current rating relative to version N
+     * @param _supplierId The supplier ID
+     * @param _version Earlier version to compare against
+     * @return increased Encrypted flag: true if the rating went up or stayed the same
+     * @return magnitude Encrypted absolute difference
+     *
+     * ## Pattern: Encrypted Signed Difference
+     * Encrypted integers are unsigned, so the delta is split into a
+     * direction (FHE.ge) and a magnitude chosen with FHE.select from the
+     * two possible subtractions. Only the caller is granted access.
+     */
+    function computeRatingDelta(
+        uint256 _supplierId,
+        uint256 _version
+    ) external returns (ebool increased, euint8 magnitude) {
+        _requireExists(_supplierId);
+        require(_canDecrypt(_supplierId, msg.sender), "Not authorized to decrypt");
+
+        RatingHistoryEntry[] storage history = ratingHistory[_supplierId];
+        require(_version < history.length, "Unknown rating version");
+
+        euint8 previous = history[_version].rating;
+        euint8 current = suppliers[_supplierId].rating;
 
-        suppliers[_supplierId].rating = encryptedRating;
+        increased = FHE.ge(current, previous);
+        magnitude = FHE.select(increased, FHE.sub(current, previous), FHE.sub(previous, current));
 
-        emit SupplierRatingUpdated(_supplierId, msg.sender);
+        FHE.allowThis(increased);
+        FHE.allow(increased, msg.sender);
+        FHE.allowThis(magnitude);
+        FHE.allow(magnitude, msg.sender);
+
+        emit RatingDeltaComputed(_supplierId, msg.sender, _version, history.length - 1, increased, magnitude);
     }
 
     /**
-     * @dev Update supplier preference status (only owner)
+     * @dev Get the encrypted rating handle for a supplier
+     * @param _supplierId The supplier ID to query
+     * @return The encrypted rating (only ACL-allowed addresses can decrypt)
+     */
+    function getEncryptedRating(uint256 _supplierId) external view returns (euint8) {
+        _requireExists(_supplierId);
+
+        return suppliers[_supplierId].rating;
+    }
+
+    /**
+     * @dev Update supplier preference status with a value encrypted client-side (owner or manager)
      * @param _supplierId The supplier ID to update
-     * @param _isPreferred New preference status
+     * @param _encryptedPreferred New preference status, encrypted by the client
+     * @param _inputProof Proof of correct encryption
+     *
+     * The emitted event carries only the new handle, never the value. In auto
+     * preference mode the supplier is marked overridden, so later rating
+     * updates no longer re-derive its flag until the override is cleared.
      */
-    function updateSupplierPreference(uint256 _supplierId, bool _isPreferred) external {
-        require(_supplierId > 0 && _supplierId <= supplierCount, "Invalid supplier ID");
-        require(suppliers[_supplierId].exists, "Supplier does not exist");
-        require(suppliers[_supplierId].owner == msg.sender, "Only owner can update");
+    function updateSupplierPreference(
+        uint256 _supplierId,
+        externalEbool _encryptedPreferred,
+        bytes calldata _inputProof
+    ) external {
+        _requireOwner(_supplierId);
+
+        ebool isPreferred = FHE.fromExternal(_encryptedPreferred, _inputProof);
+        _allowDecryptors(isPreferred, _supplierId);
 
-        // Update preference status (no encryption needed)
-        suppliers[_supplierId].isPreferred = _isPreferred;
+        suppliers[_supplierId].isPreferred = isPreferred;
 
-        emit SupplierPreferenceUpdated(_supplierId, msg.sender);
+        emit SupplierPreferenceUpdated(_supplierId, msg.sender, isPreferred);
+
+        if (autoPreferredEnabled[_orgOf(_supplierId)] && !preferenceOverridden[_supplierId]) {
+            preferenceOverridden[_supplierId] = true;
+            emit PreferenceOverrideChanged(_supplierId, msg.sender, true);
+        }
     }
 
     /**
-     * @dev Check if supplier is preferred (only owner can get real result)
+     * @dev Get the encrypted preference status of a supplier
      * @param _supplierId The supplier ID to check
+     * @return Encrypted boolean (only ACL-allowed addresses, i.e. the owner and decryptor roles, can decrypt)
      */
-    function isSupplierPreferred(uint256 _supplierId) external view returns (bool) {
-        require(_supplierId > 0 && _supplierId <= supplierCount, "Invalid supplier ID");
-        require(suppliers[_supplierId].exists, "Supplier does not exist");
+    function isSupplierPreferred(uint256 _supplierId) external view returns (ebool) {
+        _requireExists(_supplierId);
 
-        // Only owner can see the preference status
-        if (msg.sender == suppliers[_supplierId].owner) {
-            return suppliers[_supplierId].isPreferred;
-        } else {
-            return false; // Hidden for non-owners
-        }
+        return suppliers[_supplierId].isPreferred;
     }
 
     /**
-     * @dev Request rating decryption (only owner can request)
+     * @dev Request rating decryption (owner, admin, manager or auditor)
      * @param _supplierId The supplier ID to decrypt rating for
+     * Note: the returned request ID is also emitted in RatingDecryptionRequested.
      */
-    function requestRatingDecryption(uint256 _supplierId) external {
-        require(_supplierId > 0 && _supplierId <= supplierCount, "Invalid supplier ID");
-        require(suppliers[_supplierId].exists, "Supplier does not exist");
-        require(suppliers[_supplierId].owner == msg.sender, "Only owner can decrypt");
+    function requestRatingDecryption(uint256 _supplierId) external returns (uint256 requestId) {
+        _requireExists(_supplierId);
+        require(_canDecrypt(_supplierId, msg.sender), "Not authorized to decrypt");
 
         // Request async decryption following the proven pattern
         bytes32[] memory cts = new bytes32[](1);
         cts[0] = FHE.toBytes32(suppliers[_supplierId].rating);
-        FHE.requestDecryption(cts, this.processRatingDecryption.selector);
+        requestId = FHE.requestDecryption(cts, this.processRatingDecryption.selector);
+
+        decryptionRequests[requestId] = DecryptionRequest({
+            supplierId: _supplierId,
+            requester: msg.sender,
+            status: DecryptionStatus.Pending,
+            requestedAt: uint64(block.timestamp),
+            resolvedAt: 0,
+            rating: 0
+        });
+        outstandingDecryptionRequests[msg.sender].push(requestId);
+
+        emit RatingDecryptionRequested(requestId, _supplierId, msg.sender);
     }
 
     /**
      * @dev Process rating decryption callback
+     * @param requestId ID returned by FHE.requestDecryption
+     * @param decryptedRating The decrypted rating
+     * @param signatures KMS signatures over the decrypted result
+     *
+     * ## Pattern: Verified Decryption Callback
+     * The request ID is resolved to the supplier and requester recorded at
+     * request time. Unknown and no-longer-pending IDs are rejected, and
+     * FHE.checkSignatures reverts unless the result is signed by the KMS.
+     * The result is stored on the request so clients can poll for it.
      */
     function processRatingDecryption(
         uint256 requestId,
         uint8 decryptedRating,
         bytes[] memory signatures
     ) external {
-        // For simplified implementation, skip signature verification
-        // In production, proper signature verification would be implemented
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.status != DecryptionStatus.None, "Unknown decryption request");
+        require(request.status == DecryptionStatus.Pending, "Decryption request not pending");
 
-        // Emit event with decrypted rating
-        emit RatingDecrypted(msg.sender, decryptedRating);
+        // Reverts unless the KMS signatures cover this request's handles and result
+        FHE.checkSignatures(requestId, signatures);
+
+        request.rating = decryptedRating;
+        _resolveDecryptionRequest(requestId, DecryptionStatus.Fulfilled);
+
+        emit RatingDecrypted(requestId, request.supplierId, request.requester, decryptedRating);
+    }
+
+    /**
+     * @dev Cancel a pending decryption request (requester only)
+     * @param _requestId The request ID
+     *
+     * A late oracle callback for a cancelled request is rejected.
+     */
+    function cancelDecryptionRequest(uint256 _requestId) external {
+        DecryptionRequest storage request = decryptionRequests[_requestId];
+        require(request.status == DecryptionStatus.Pending, "Decryption request not pending");
+        require(request.requester == msg.sender, "Only requester can cancel");
+
+        _resolveDecryptionRequest(_requestId, DecryptionStatus.Cancelled);
+
+        emit DecryptionRequestCancelled(_requestId, msg.sender);
+    }
+
+    /**
+     * @dev Mark a pending request as expired once DECRYPTION_REQUEST_TTL has passed (callable by anyone)
+     * @param _requestId The request ID
+     */
+    function expireDecryptionRequest(uint256 _requestId) external {
+        DecryptionRequest storage request = decryptionRequests[_requestId];
+        require(request.status == DecryptionStatus.Pending, "Decryption request not pending");
+        require(block.timestamp > request.requestedAt + DECRYPTION_REQUEST_TTL, "Decryption request not expired");
+
+        _resolveDecryptionRequest(_requestId, DecryptionStatus.Expired);
+
+        emit DecryptionRequestExpired(_requestId, request.requester);
+    }
+
+    /**
+     * @dev Get a decryption request record
+     * @param _requestId The request ID
+     * Note: rating is only meaningful once status is Fulfilled.
+     */
+    function getDecryptionRequest(uint256 _requestId)
+        external
+        view
+        returns (
+            uint256 supplierId,
+            address requester,
+            DecryptionStatus status,
+            uint64 requestedAt,
+            uint64 resolvedAt,
+            uint8 rating
+        )
+    {
+        DecryptionRequest storage request = decryptionRequests[_requestId];
+        require(request.status != DecryptionStatus.None, "Unknown decryption request");
+
+        return (
+            request.supplierId,
+            request.requester,
+            request.status,
+            request.requestedAt,
+            request.resolvedAt,
+            request.rating
+        );
+    }
+
+    /**
+     * @dev List the IDs of an account's pending decryption requests
+     */
+    function getOutstandingDecryptionRequests(address _requester) external view returns (uint256[] memory) {
+        return outstandingDecryptionRequests[_requester];
     }
 
 
@@ -187,47 +433,342 @@ contract SupplierManagement is SepoliaConfig {
      * @dev Compare two suppliers' ratings (FHE computation without revealing actual values)
      * @param _supplierId1 First supplier ID
      * @param _supplierId2 Second supplier ID
-     * @return True if supplier1 has higher or equal rating than supplier2
+     * @return result Encrypted boolean: true if supplier1 has higher or equal rating than supplier2
+     *
+     * ## Pattern: Encrypted Comparison
+     * FHE.ge runs on the two ciphertexts and yields an encrypted boolean.
+     * Only the caller is granted ACL access to it, so they learn the
+     * ordering without learning either rating. Both suppliers must belong
+     * to the same organization.
      */
-    function compareSupplierRatings(uint256 _supplierId1, uint256 _supplierId2)
+    function compareSupplierRatings(uint256 _supplierId1, uint256 _supplierId2) external returns (ebool result) {
+        require(_isRegistered(_supplierId1), "Invalid supplier ID 1");
+        require(_isRegistered(_supplierId2), "Invalid supplier ID 2");
+        require(suppliers[_supplierId1].exists && suppliers[_supplierId2].exists, "Supplier does not exist");
+        _requireNotArchived(_supplierId1);
+        _requireNotArchived(_supplierId2);
+
+        // FHE comparison without decryption - preserves privacy
+        require(_canCompare(_supplierId1, _supplierId2, msg.sender), "Not authorized to compare");
+
+        result = FHE.ge(suppliers[_supplierId1].rating, suppliers[_supplierId2].rating);
+
+        // Only the caller may decrypt the comparison result
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+
+        comparisonResults[msg.sender][_supplierId1][_supplierId2] = result;
+
+        emit SupplierRatingsCompared(_supplierId1, _supplierId2, msg.sender, result);
+    }
+
+    /**
+     * @dev Get the caller's latest encrypted comparison result for a supplier pair
+     * @param _supplierId1 First supplier ID
+     * @param _supplierId2 Second supplier ID
+     * @return Encrypted boolean from the last compareSupplierRatings call (only the caller can decrypt)
+     */
+    function getComparisonResult(uint256 _supplierId1, uint256 _supplierId2) external view returns (ebool) {
+        return comparisonResults[msg.sender][_supplierId1][_supplierId2];
+    }
+
+    /**
+     * @dev Set an organization's scorecard weights (organization admin only)
+     * @param _orgId The organization
+     * @param _quality Weight for quality, in percent
+     * @param _delivery Weight for on-time delivery, in percent
+     * @param _price Weight for price competitiveness, in percent
+     * @param _compliance Weight for compliance, in percent
+     *
+     * Existing composites keep the weights they were computed with until
+     * refreshCompositeScore is called; compare weightsVersion to detect this.
+     */
+    function setScoreWeights(
+        uint256 _orgId,
+        uint8 _quality,
+        uint8 _delivery,
+        uint8 _price,
+        uint8 _compliance
+    ) external {
+        require(hasRole(_orgId, ADMIN_ROLE, msg.sender), "Only admin can set weights");
+        _setScoreWeights(_orgId, _quality, _delivery, _price, _compliance);
+    }
+
+    /**
+     * @dev Submit a multi-criteria scorecard encrypted client-side (owner or manager)
+     * @param _supplierId The supplier ID to score
+     * @param _quality Encrypted quality score (1-10)
+     * @param _delivery Encrypted on-time delivery score (1-10)
+     * @param _price Encrypted price competitiveness score (1-10)
+     * @param _compliance Encrypted compliance score (1-10)
+     * @param _inputProof Proof of correct encryption (covers all four scores)
+     *
+     * ## Pattern: Homomorphic Weighted Sum
+     * The composite is computed as sum(score * weight) with FHE.mul/FHE.add
+     * on euint16, so no individual score is ever decrypted.
+     */
+    function updateScorecard(
+        uint256 _supplierId,
+        externalEuint8 _quality,
+        externalEuint8 _delivery,
+        externalEuint8 _price,
+        externalEuint8 _compliance,
+        bytes calldata _inputProof
+    ) external {
+        _requireOwner(_supplierId);
+
+        Scorecard storage card = scorecards[_supplierId];
+        card.quality = _clampRating(FHE.fromExternal(_quality, _inputProof));
+        card.delivery = _clampRating(FHE.fromExternal(_delivery, _inputProof));
+        card.price = _clampRating(FHE.fromExternal(_price, _inputProof));
+        card.compliance = _clampRating(FHE.fromExternal(_compliance, _inputProof));
+        card.exists = true;
+
+        _allowDecryptors(card.quality, _supplierId);
+        _allowDecryptors(card.delivery, _supplierId);
+        _allowDecryptors(card.price, _supplierId);
+        _allowDecryptors(card.compliance, _supplierId);
+
+        _computeComposite(_supplierId);
+    }
+
+    /**
+     * @dev Recompute a supplier's composite score with the current weights (owner or manager)
+     * @param _supplierId The supplier ID to refresh
+     */
+    function refreshCompositeScore(uint256 _supplierId) external {
+        _requireOwner(_supplierId);
+        require(scorecards[_supplierId].exists, "Scorecard does not exist");
+
+        _computeComposite(_supplierId);
+    }
+
+    /**
+     * @dev Get the encrypted scorecard of a supplier
+     * @param _supplierId The supplier ID to query
+     * @return quality Encrypted quality score
+     * @return delivery Encrypted on-time delivery score
+     * @return price Encrypted price competitiveness score
+     * @return compliance Encrypted compliance score
+     * @return composite Encrypted weighted composite score
+     * @return weightsVersion Weights version the composite was computed with
+     */
+    function getScorecard(uint256 _supplierId)
         external
         view
-        returns (bool)
+        returns (
+            euint8 quality,
+            euint8 delivery,
+            euint8 price,
+            euint8 compliance,
+            euint16 composite,
+            uint256 weightsVersion
+        )
     {
-        require(_supplierId1 > 0 && _supplierId1 <= supplierCount, "Invalid supplier ID 1");
-        require(_supplierId2 > 0 && _supplierId2 <= supplierCount, "Invalid supplier ID 2");
-        require(suppliers[_supplierId1].exists && suppliers[_supplierId2].exists, "Supplier does not exist");
+        _requireExists(_supplierId);
+        require(scorecards[_supplierId].exists, "Scorecard does not exist");
 
-        // FHE comparison without decryption - preserves privacy
-        require(
-            msg.sender == suppliers[_supplierId1].owner ||
-            msg.sender == suppliers[_supplierId2].owner,
-            "Only owner can compare ratings"
-        );
+        Scorecard storage card = scorecards[_supplierId];
+        return (card.quality, card.delivery, card.price, card.compliance, card.composite, card.weightsVersion);
+    }
+
+    /**
+     * @dev Compare two suppliers' composite scores (FHE computation without revealing actual values)
+     * @param _supplierId1 First supplier ID
+     * @param _supplierId2 Second supplier ID
+     * @return result Encrypted boolean: true if supplier1's composite is higher or equal
+     */
+    function compareCompositeScores(uint256 _supplierId1, uint256 _supplierId2) external returns (ebool result) {
+        require(scorecards[_supplierId1].exists, "Scorecard 1 does not exist");
+        require(scorecards[_supplierId2].exists, "Scorecard 2 does not exist");
+        _requireNotArchived(_supplierId1);
+        _requireNotArchived(_supplierId2);
+        require(_canCompare(_supplierId1, _supplierId2, msg.sender), "Not authorized to compare");
+
+        result = FHE.ge(scorecards[_supplierId1].composite, scorecards[_supplierId2].composite);
+
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
 
-        // For comparison, we can use FHE operations without immediate decryption
-        // This is a simplified version that requests async decryption
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(suppliers[_supplierId1].rating);
-        cts[1] = FHE.toBytes32(suppliers[_supplierId2].rating);
+        scoreComparisonResults[msg.sender][_supplierId1][_supplierId2] = result;
 
-        // In a real implementation, this would be async
-        // For now, return a placeholder
-        return true; // Simplified comparison result
+        emit SupplierScoresCompared(_supplierId1, _supplierId2, msg.sender, result);
     }
 
     /**
-     * @dev Get total number of suppliers
+     * @dev Get the caller's latest encrypted composite comparison result for a supplier pair
+     * @param _supplierId1 First supplier ID
+     * @param _supplierId2 Second supplier ID
      */
-    function getSupplierCount() external view returns (uint256) {
-        return supplierCount;
+    function getScoreComparisonResult(uint256 _supplierId1, uint256 _supplierId2) external view returns (ebool) {
+        return scoreComparisonResults[msg.sender][_supplierId1][_supplierId2];
+    }
+
+    /**
+     * @dev Grant a role in an organization to an account (organization admin only)
+     * @param _orgId The organization
+     * @param _role Role identifier (e.g. AUDITOR_ROLE)
+     * @param _account Address receiving the role
+     *
+     * ## Pattern: ACL Follows Roles
+     * Admin, procurement manager and auditor roles are decryptor roles:
+     * every handle computed after the grant includes all of the
+     * organization's current decryptors. Handles that already exist are
+     * backfilled separately in bounded pages with grantRoleAccess and
+     * grantRatingHistoryAccess, so a grant costs the same however large the
+     * organization grows. Roles never reach other organizations' suppliers.
+     */
+    function grantRole(uint256 _orgId, bytes32 _role, address _account) external {
+        require(hasRole(_orgId, ADMIN_ROLE, msg.sender), "Only admin can manage roles");
+        require(_isKnownRole(_role), "Unknown role");
+        require(!hasRole(_orgId, _role, _account), "Role already granted");
+
+        _grantRole(_orgId, _role, _account);
+    }
+
+    /**
+     * @dev Revoke a role in an organization from an account (organization admin only)
+     * @param _orgId The organization
+     * @param _role Role identifier
+     * @param _account Address losing the role
+     *
+     * Revocation stops future ACL grants, but handles already allowed stay
+     * decryptable by the former role holder until rotateAccess is called.
+     */
+    function revokeRole(uint256 _orgId, bytes32 _role, address _account) external {
+        require(hasRole(_orgId, ADMIN_ROLE, msg.sender), "Only admin can manage roles");
+        require(hasRole(_orgId, _role, _account), "Role not granted");
+        require(!(_role == ADMIN_ROLE && _account == msg.sender), "Admin cannot revoke own admin role");
+
+        roles[_orgId][_role][_account] = false;
+
+        address[] storage members = roleMembers[_orgId][_role];
+        for (uint256 i = 0; i < members.length; i++) {
+            if (members[i] == _account) {
+                members[i] = members[members.length - 1];
+                members.pop();
+                break;
+            }
+        }
+
+        emit RoleRevoked(_orgId, _role, _account, msg.sender);
     }
 
     /**
-     * @dev Check if supplier exists
+     * @dev List the current holders of a role in an organization
+     */
+    function getRoleMembers(uint256 _orgId, bytes32 _role) external view returns (address[] memory) {
+        return roleMembers[_orgId][_role];
+    }
+
+    /**
+     * @dev Submit or revise the caller's own encrypted rating for a supplier
+     * @param _supplierId The supplier ID to rate
+     * @param _encryptedRating Rating 1-10, encrypted by the client
+     * @param _inputProof Proof of correct encryption
+     *
+     * ## Pattern: Encrypted Running Aggregate
+     * Each rater holds one slot. A revision subtracts the previous encrypted
+     * rating from the running sum before adding the new one, so the sum is
+     * always over current ratings only. Individual ratings are never granted
+     * to anyone but their rater. Only role holders of the supplier's
+     * organization may rate, so nobody can skew the average by rating from
+     * fresh addresses.
+     */
+    function submitRating(
+        uint256 _supplierId,
+        externalEuint8 _encryptedRating,
+        bytes calldata _inputProof
+    ) external {
+        _requireActive(_supplierId);
+        require(_isRoleHolder(_orgOf(_supplierId), msg.sender), "Only organization members can rate");
+
+        euint8 rating = _clampRating(FHE.fromExternal(_encryptedRating, _inputProof));
+        RatingAggregate storage agg = ratingAggregates[_supplierId];
+        bool revised = hasRated[_supplierId][msg.sender];
+
+        if (revised) {
+            agg.sum = FHE.sub(agg.sum, FHE.asEuint32(raterRatings[_supplierId][msg.sender]));
+        } else {
+            hasRated[_supplierId][msg.sender] = true;
+            agg.raterCount++;
+        }
+        agg.sum = FHE.add(agg.sum, FHE.asEuint32(rating));
+        agg.average = FHE.asEuint8(FHE.div(agg.sum, uint32(agg.raterCount)));
+
+        FHE.allowThis(rating);
+        FHE.allow(rating, msg.sender);
+        raterRatings[_supplierId][msg.sender] = rating;
+
+        FHE.allowThis(agg.sum);
+        _allowDecryptors(agg.average, _supplierId);
+
+        emit RaterRatingSubmitted(_supplierId, msg.sender, revised, agg.raterCount);
+    }
+
+    /**
+     * @dev Get the encrypted average rating and number of raters
+     * @param _supplierId The supplier ID to query
+     * @return average Encrypted average rating (owner and decryptor roles can decrypt)
+     * @return raterCount Number of distinct raters
+     */
+    function getRatingAggregate(uint256 _supplierId) external view returns (euint8 average, uint32 raterCount) {
+        _requireExists(_supplierId);
+
+        RatingAggregate storage agg = ratingAggregates[_supplierId];
+        return (agg.average, agg.raterCount);
+    }
+
+    /**
+     * @dev Get the caller's own encrypted rating for a supplier
+     * @param _supplierId The supplier ID to query
+     */
+    function getMyRating(uint256 _supplierId) external view returns (euint8) {
+        require(hasRated[_supplierId][msg.sender], "No rating submitted");
+        return raterRatings[_supplierId][msg.sender];
+    }
+
+    /**
+     * @dev Get the number of suppliers registered with an organization
+     * @param _orgId The organization
+     */
+    function getSupplierCount(uint256 _orgId) external view returns (uint256) {
+        return organizations[_orgId].supplierCount;
+    }
+
+    /**
+     * @dev Check if supplier exists and has not been archived
      * @param _supplierId The supplier ID to check
      */
     function supplierExists(uint256 _supplierId) external view returns (bool) {
-        return _supplierId > 0 && _supplierId <= supplierCount && suppliers[_supplierId].exists;
+        return
+            _isRegistered(_supplierId) &&
+            suppliers[_supplierId].exists &&
+            suppliers[_supplierId].state != SupplierState.Archived;
+    }
+
+    /**
+     * @dev Forward any other call to SupplierManagementExtension
+     *
+     * ## Pattern: Delegated Extension
+     * This contract is close to the 24KB code size limit, so newer entry
+     * points live in a separate contract. delegatecall runs them with this
+     * contract's storage, address and ACL permissions, so they behave as if
+     * declared here. Clients call them at this address with the extension ABI.
+     */
+    fallback() external {
+        address target = extension;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
     }
 }
\ No newline at end of file
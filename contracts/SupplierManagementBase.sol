@@ -0,0 +1,683 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {
+    FHE,
+    euint8,
+    euint16,
+    euint32,
+    euint64,
+    ebool,
+    externalEuint8,
+    externalEbool
+} from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title Supplier Management Base
+ * @notice Types, state, events and internal helpers shared by SupplierManagement and its extension
+ * @dev SupplierManagementExtension runs through delegatecall against SupplierManagement's
+ * storage, so both contracts must see the exact same layout. All state is
+ * declared here and neither derived contract may add state variables.
+ */
+abstract contract SupplierManagementBase {
+    // A tenant of the shared deployment with its own roles, supplier numbering, categories and policies
+    struct Organization {
+        string name;
+        uint256 supplierCount; // Supplier numbers in this organization run 1..supplierCount
+        bool exists;
+    }
+
+    // Lifecycle: Pending -> Approved <-> Suspended; any non-archived state -> Archived (terminal)
+    enum SupplierState {
+        Pending,
+        Approved,
+        Suspended,
+        Archived
+    }
+
+    // Contact details live off-chain, encrypted client-side to the owner and decryptor roles
+    struct ContactCommitment {
+        bytes32 contentHash; // keccak256 of the encrypted contact blob
+        string pointer; // Where the blob is stored, e.g. a blob store key
+    }
+
+    // One row of addSuppliersBatch; every row's handles are covered by the batch's single input proof
+    struct SupplierInput {
+        string name;
+        string category;
+        ContactCommitment contact;
+        externalEuint8 encryptedRating;
+        externalEbool encryptedPreferred;
+    }
+
+    struct Supplier {
+        string name;
+        string category;
+        ContactCommitment contact;
+        euint8 rating; // FHE encrypted rating (1-10)
+        ebool isPreferred; // FHE encrypted preferred supplier status
+        address owner;
+        bool exists;
+        SupplierState state;
+    }
+
+    // Multi-criteria evaluation; every dimension is an encrypted 1-10 score
+    struct Scorecard {
+        euint8 quality;
+        euint8 delivery; // On-time delivery
+        euint8 price; // Price competitiveness
+        euint8 compliance;
+        euint16 composite; // Weighted sum of the four scores (weights sum to 100, so 100-1000)
+        uint256 weightsVersion; // Weights version the composite was computed with
+        bool exists;
+    }
+
+    // Running aggregate of ratings submitted by independent raters
+    struct RatingAggregate {
+        euint32 sum; // Encrypted sum of all current rater ratings (contract-only)
+        euint8 average; // Encrypted sum / raterCount (owner and decryptor roles)
+        uint32 raterCount;
+    }
+
+    // Per-organization weights per dimension, in percent (must sum to 100)
+    struct ScoreWeights {
+        uint8 quality;
+        uint8 delivery;
+        uint8 price;
+        uint8 compliance;
+    }
+
+    enum DecryptionStatus {
+        None,
+        Pending,
+        Fulfilled,
+        Cancelled,
+        Expired
+    }
+
+    // Where a supplier's preferred flag comes from
+    enum PreferenceSource {
+        Manual, // auto mode off; set by the owner or a manager
+        Auto, // derived from rating >= preferredThreshold
+        Overridden // auto mode on, but manually set since
+    }
+
+    // Rating decryption request awaiting (or past) its oracle callback
+    struct DecryptionRequest {
+        uint256 supplierId;
+        address requester;
+        DecryptionStatus status;
+        uint64 requestedAt;
+        uint64 resolvedAt;
+        uint8 rating; // set once fulfilled
+    }
+
+    // One version of a supplier's rating; entries are never modified except by access rotation
+    struct RatingHistoryEntry {
+        euint8 rating;
+        uint64 timestamp;
+        address updater;
+        bytes32 reasonHash; // zero when no reason was given
+    }
+
+    // Encrypted delivery performance counters; deliveries are only ever added in, never stored one by one
+    struct DeliveryKpis {
+        euint32 deliveries; // On-time ratio denominator
+        euint32 onTimeDeliveries; // On-time ratio numerator
+        euint64 unitsDelivered; // Defect rate denominator
+        euint64 defectiveUnits; // Defect rate numerator
+        bool exists;
+    }
+
+    // Roles are held per organization and only reach that organization's suppliers:
+    // - ADMIN: grants roles, sets weights, manages and decrypts every supplier
+    // - PROCUREMENT_MANAGER: manages and decrypts every supplier
+    // - AUDITOR: decrypts every supplier's encrypted data, cannot edit
+    // - VIEWER: reads public data and runs encrypted comparisons, cannot decrypt ratings
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant PROCUREMENT_MANAGER_ROLE = keccak256("PROCUREMENT_MANAGER_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    bytes32 public constant VIEWER_ROLE = keccak256("VIEWER_ROLE");
+
+    // Organization 0 is created at deployment; later organizations are numbered from 1
+    mapping(uint256 => Organization) internal organizations;
+    uint256 public organizationCount;
+
+    // orgId => role => account => granted
+    mapping(uint256 => mapping(bytes32 => mapping(address => bool))) internal roles;
+    mapping(uint256 => mapping(bytes32 => address[])) internal roleMembers;
+
+    // Supplier IDs are (orgId << 128) | supplier number, see _toSupplierId. Organization 0's
+    // suppliers therefore have the plain IDs 1, 2, 3, ...
+    mapping(uint256 => Supplier) internal suppliers;
+    // supplierId => rating versions; version 0 is the rating the supplier was added with
+    mapping(uint256 => RatingHistoryEntry[]) internal ratingHistory;
+    // _categoryKey(orgId, category) => supplier IDs in that category
+    mapping(bytes32 => uint256[]) internal categorySuppliers;
+    // orgId => categories in order of first use
+    mapping(uint256 => string[]) internal organizationCategories;
+
+    // Batches are capped so a single transaction stays within the block and per-transaction FHE limits
+    uint256 public constant MAX_BATCH_SIZE = 20;
+    // Suppliers or rating versions per ACL backfill page after a decryptor role is granted
+    uint256 public constant MAX_ACCESS_BACKFILL = 25;
+
+    mapping(uint256 => Scorecard) internal scorecards;
+    mapping(uint256 => ScoreWeights) public scoreWeights;
+    mapping(uint256 => uint256) public scoreWeightsVersion;
+
+    mapping(uint256 => RatingAggregate) internal ratingAggregates;
+    // supplierId => rater => encrypted rating (only the rater can decrypt their own)
+    mapping(uint256 => mapping(address => euint8)) internal raterRatings;
+    mapping(uint256 => mapping(address => bool)) public hasRated;
+
+    // Latest encrypted comparison result per requester: requester => supplierId1 => supplierId2 => result
+    mapping(address => mapping(uint256 => mapping(uint256 => ebool))) internal comparisonResults;
+    mapping(address => mapping(uint256 => mapping(uint256 => ebool))) internal scoreComparisonResults;
+
+    // Encrypted category rankings are bounded to keep the FHE work per transaction small
+    uint256 public constant MAX_TOP_N = 3;
+    uint256 public constant MAX_RANKING_CANDIDATES = 32;
+    // Latest encrypted ranking per requester: requester => category key => supplier numbers, best first
+    mapping(address => mapping(bytes32 => euint32[])) internal categoryRankings;
+    // Encrypted ratings of those places, carried into the next candidate window (contract-only ACL)
+    mapping(address => mapping(bytes32 => euint8[])) internal categoryRankingRatings;
+
+    // Category key => encrypted minimum rating a supplier must meet
+    mapping(bytes32 => euint8) internal categoryThresholds;
+    mapping(bytes32 => bool) internal hasCategoryThreshold;
+    // Latest encrypted compliance result per requester: requester => supplierId => rating >= threshold
+    mapping(address => mapping(uint256 => ebool)) internal complianceResults;
+
+    // Pending requests older than this can be expired by anyone
+    uint256 public constant DECRYPTION_REQUEST_TTL = 1 days;
+
+    // requestId => originating rating decryption request
+    mapping(uint256 => DecryptionRequest) internal decryptionRequests;
+    // requester => IDs of their pending requests
+    mapping(address => uint256[]) internal outstandingDecryptionRequests;
+
+    // Optional per-organization auto-derived preference: isPreferred = rating >= preferredThreshold
+    // unless overridden
+    mapping(uint256 => bool) internal autoPreferredEnabled;
+    mapping(uint256 => uint8) internal preferredThreshold;
+    mapping(uint256 => bool) internal preferenceOverridden;
+
+    mapping(uint256 => DeliveryKpis) internal deliveryKpis;
+
+    // Number of times a supplier's encrypted fields were re-keyed
+    mapping(uint256 => uint256) public accessVersion;
+
+    // Events; events about a single supplier are organization-scoped through its supplier ID
+    event OrganizationCreated(uint256 indexed orgId, string name, address indexed admin);
+    event SupplierAdded(
+        uint256 indexed orgId,
+        uint256 indexed supplierId,
+        string name,
+        address indexed owner,
+        string category,
+        ebool isPreferred
+    );
+    event SupplierContactUpdated(
+        uint256 indexed supplierId,
+        address indexed updater,
+        bytes32 contentHash,
+        string pointer
+    );
+    event SupplierStateChanged(
+        uint256 indexed supplierId,
+        SupplierState fromState,
+        SupplierState toState,
+        bytes32 reasonCode,
+        address indexed changedBy
+    );
+    event SupplierRatingUpdated(uint256 indexed supplierId, address indexed updater);
+    event RatingDeltaComputed(
+        uint256 indexed supplierId,
+        address indexed requester,
+        uint256 fromVersion,
+        uint256 toVersion,
+        ebool increased,
+        euint8 magnitude
+    );
+    event SupplierPreferenceUpdated(uint256 indexed supplierId, address indexed updater, ebool isPreferred);
+    event AutoPreferredConfigured(uint256 indexed orgId, bool enabled, uint8 threshold, address indexed configuredBy);
+    event PreferenceOverrideChanged(uint256 indexed supplierId, address indexed updater, bool overridden);
+    event RatingDecryptionRequested(uint256 indexed requestId, uint256 indexed supplierId, address indexed requester);
+    event RatingDecrypted(
+        uint256 indexed requestId,
+        uint256 indexed supplierId,
+        address indexed requester,
+        uint8 rating
+    );
+    event DecryptionRequestCancelled(uint256 indexed requestId, address indexed requester);
+    event DecryptionRequestExpired(uint256 indexed requestId, address indexed requester);
+    event SupplierRatingsCompared(
+        uint256 indexed supplierId1,
+        uint256 indexed supplierId2,
+        address indexed requester,
+        ebool result
+    );
+    event ScorecardUpdated(uint256 indexed supplierId, address indexed updater, uint256 weightsVersion);
+    event ScoreWeightsUpdated(
+        uint256 indexed orgId,
+        uint256 indexed version,
+        uint8 quality,
+        uint8 delivery,
+        uint8 price,
+        uint8 compliance
+    );
+    event SupplierScoresCompared(
+        uint256 indexed supplierId1,
+        uint256 indexed supplierId2,
+        address indexed requester,
+        ebool result
+    );
+    event RaterRatingSubmitted(uint256 indexed supplierId, address indexed rater, bool revised, uint32 raterCount);
+    event CategoryRanked(
+        uint256 indexed orgId,
+        bytes32 indexed categoryKey,
+        address indexed requester,
+        string category,
+        euint32[] ranking
+    );
+    event ComplianceThresholdSet(
+        uint256 indexed orgId,
+        bytes32 indexed categoryKey,
+        address indexed setBy,
+        string category
+    );
+    event ComplianceChecked(uint256 indexed supplierId, address indexed requester, ebool compliant);
+    event DeliveryRecorded(uint256 indexed supplierId, address indexed recordedBy);
+    event RoleGranted(uint256 indexed orgId, bytes32 indexed role, address indexed account, address sender);
+    event RoleRevoked(uint256 indexed orgId, bytes32 indexed role, address indexed account, address sender);
+    event AccessRotated(uint256 indexed supplierId, address indexed rotatedBy, uint256 version, uint256 decryptorCount);
+
+    /**
+     * @dev Check whether an account holds a role in an organization
+     */
+    function hasRole(uint256 _orgId, bytes32 _role, address _account) public view returns (bool) {
+        return roles[_orgId][_role][_account];
+    }
+
+    /**
+     * @dev Register an organization with msg.sender as its first admin and default scorecard weights
+     */
+    function _createOrganization(string memory _name) internal returns (uint256 orgId) {
+        require(bytes(_name).length > 0, "Name cannot be empty");
+
+        orgId = organizationCount++;
+        organizations[orgId] = Organization({ name: _name, supplierCount: 0, exists: true });
+
+        emit OrganizationCreated(orgId, _name, msg.sender);
+
+        _grantRole(orgId, ADMIN_ROLE, msg.sender);
+        _setScoreWeights(orgId, 40, 30, 20, 10);
+    }
+
+    /**
+     * @dev Store a new supplier record and grant ACL access on its encrypted fields
+     */
+    function _addSupplier(
+        uint256 _orgId,
+        string memory _name,
+        string memory _category,
+        ContactCommitment memory _contact,
+        euint8 _rating,
+        ebool _isPreferred
+    ) internal returns (uint256 supplierId) {
+        require(organizations[_orgId].exists, "Unknown organization");
+        require(bytes(_name).length > 0, "Name cannot be empty");
+        require(bytes(_category).length > 0, "Category cannot be empty");
+
+        supplierId = _toSupplierId(_orgId, ++organizations[_orgId].supplierCount);
+
+        suppliers[supplierId] = Supplier({
+            name: _name,
+            category: _category,
+            contact: _contact,
+            rating: _rating,
+            isPreferred: _isPreferred,
+            owner: msg.sender,
+            exists: true,
+            state: SupplierState.Pending
+        });
+
+        // Set FHE permissions for the owner and decryptor roles
+        _allowDecryptors(_rating, supplierId);
+        _allowDecryptors(_isPreferred, supplierId);
+        _recordRatingVersion(supplierId, _rating, bytes32(0));
+        if (autoPreferredEnabled[_orgId]) {
+            _derivePreference(supplierId);
+        }
+
+        uint256[] storage categoryIds = categorySuppliers[_categoryKey(_orgId, _category)];
+        if (categoryIds.length == 0) {
+            organizationCategories[_orgId].push(_category);
+        }
+        categoryIds.push(supplierId);
+
+        // Carries the preference as stored, i.e. after any derivation above
+        emit SupplierAdded(_orgId, supplierId, _name, msg.sender, _category, suppliers[supplierId].isPreferred);
+    }
+
+    /**
+     * @dev Mark a request resolved and drop it from the requester's outstanding list
+     */
+    function _resolveDecryptionRequest(uint256 _requestId, DecryptionStatus _status) internal {
+        DecryptionRequest storage request = decryptionRequests[_requestId];
+        request.status = _status;
+        request.resolvedAt = uint64(block.timestamp);
+
+        uint256[] storage outstanding = outstandingDecryptionRequests[request.requester];
+        for (uint256 i = 0; i < outstanding.length; i++) {
+            if (outstanding[i] == _requestId) {
+                outstanding[i] = outstanding[outstanding.length - 1];
+                outstanding.pop();
+                break;
+            }
+        }
+    }
+
+    /**
+     * @dev Replace a supplier's encrypted rating and re-grant ACL access
+     */
+    function _setRating(uint256 _supplierId, euint8 _rating, bytes32 _reasonHash) internal {
+        _allowDecryptors(_rating, _supplierId);
+
+        suppliers[_supplierId].rating = _rating;
+        _recordRatingVersion(_supplierId, _rating, _reasonHash);
+
+        emit SupplierRatingUpdated(_supplierId, msg.sender);
+
+        if (autoPreferredEnabled[_orgOf(_supplierId)] && !preferenceOverridden[_supplierId]) {
+            _derivePreference(_supplierId);
+        }
+    }
+
+    /**
+     * @dev Set the encrypted preferred flag to rating >= the organization's preferredThreshold
+     */
+    function _derivePreference(uint256 _supplierId) internal {
+        ebool isPreferred = FHE.ge(suppliers[_supplierId].rating, preferredThreshold[_orgOf(_supplierId)]);
+        _allowDecryptors(isPreferred, _supplierId);
+
+        suppliers[_supplierId].isPreferred = isPreferred;
+
+        emit SupplierPreferenceUpdated(_supplierId, msg.sender, isPreferred);
+    }
+
+    function _recordRatingVersion(uint256 _supplierId, euint8 _rating, bytes32 _reasonHash) internal {
+        ratingHistory[_supplierId].push(
+            RatingHistoryEntry({
+                rating: _rating,
+                timestamp: uint64(block.timestamp),
+                updater: msg.sender,
+                reasonHash: _reasonHash
+            })
+        );
+    }
+
+    /**
+     * @dev Validate and store new scorecard weights for an organization
+     */
+    function _setScoreWeights(
+        uint256 _orgId,
+        uint8 _quality,
+        uint8 _delivery,
+        uint8 _price,
+        uint8 _compliance
+    ) internal {
+        require(uint16(_quality) + _delivery + _price + _compliance == 100, "Weights must sum to 100");
+
+        scoreWeights[_orgId] = ScoreWeights(_quality, _delivery, _price, _compliance);
+        uint256 version = ++scoreWeightsVersion[_orgId];
+
+        emit ScoreWeightsUpdated(_orgId, version, _quality, _delivery, _price, _compliance);
+    }
+
+    /**
+     * @dev Recompute the encrypted composite score: sum(score * weight)
+     */
+    function _computeComposite(uint256 _supplierId) internal {
+        Scorecard storage card = scorecards[_supplierId];
+        uint256 orgId = _orgOf(_supplierId);
+        ScoreWeights memory w = scoreWeights[orgId];
+
+        euint16 composite = FHE.mul(FHE.asEuint16(card.quality), uint16(w.quality));
+        composite = FHE.add(composite, FHE.mul(FHE.asEuint16(card.delivery), uint16(w.delivery)));
+        composite = FHE.add(composite, FHE.mul(FHE.asEuint16(card.price), uint16(w.price)));
+        composite = FHE.add(composite, FHE.mul(FHE.asEuint16(card.compliance), uint16(w.compliance)));
+
+        _allowDecryptors(composite, _supplierId);
+
+        card.composite = composite;
+        card.weightsVersion = scoreWeightsVersion[orgId];
+
+        emit ScorecardUpdated(_supplierId, msg.sender, card.weightsVersion);
+    }
+
+    /**
+     * @dev Clamp an encrypted rating into the valid 1-10 range
+     */
+    function _clampRating(euint8 _rating) internal returns (euint8) {
+        return FHE.min(FHE.max(_rating, 1), 10);
+    }
+
+    /**
+     * @dev Supplier ID of an organization's Nth supplier
+     */
+    function _toSupplierId(uint256 _orgId, uint256 _number) internal pure returns (uint256) {
+        return (_orgId << 128) | _number;
+    }
+
+    /**
+     * @dev Organization a supplier ID belongs to
+     */
+    function _orgOf(uint256 _supplierId) internal pure returns (uint256) {
+        return _supplierId >> 128;
+    }
+
+    /**
+     * @dev Categories are scoped per organization: the same name in two organizations is two categories
+     */
+    function _categoryKey(uint256 _orgId, string memory _category) internal pure returns (bytes32) {
+        return keccak256(abi.encode(_orgId, _category));
+    }
+
+    /**
+     * @dev Revert unless the organization exists
+     */
+    function _requireOrganization(uint256 _orgId) internal view {
+        require(organizations[_orgId].exists, "Unknown organization");
+    }
+
+    /**
+     * @dev Revert unless the supplier exists
+     */
+    function _requireExists(uint256 _supplierId) internal view {
+        require(_isRegistered(_supplierId), "Invalid supplier ID");
+        require(suppliers[_supplierId].exists, "Supplier does not exist");
+    }
+
+    /**
+     * @dev Whether the ID's supplier number is within its organization's registered range
+     */
+    function _isRegistered(uint256 _supplierId) internal view returns (bool) {
+        uint256 number = uint128(_supplierId);
+        return number > 0 && number <= organizations[_orgOf(_supplierId)].supplierCount;
+    }
+
+    /**
+     * @dev Revert unless the supplier exists and has not been archived
+     */
+    function _requireActive(uint256 _supplierId) internal view {
+        _requireExists(_supplierId);
+        _requireNotArchived(_supplierId);
+    }
+
+    function _requireNotArchived(uint256 _supplierId) internal view {
+        require(suppliers[_supplierId].state != SupplierState.Archived, "Supplier is archived");
+    }
+
+    /**
+     * @dev Revert unless the supplier is active and msg.sender may manage it (owner, admin or manager)
+     */
+    function _requireOwner(uint256 _supplierId) internal view {
+        _requireActive(_supplierId);
+        require(
+            suppliers[_supplierId].owner == msg.sender || _isManager(_orgOf(_supplierId), msg.sender),
+            "Only owner or manager can update"
+        );
+    }
+
+    /**
+     * @dev Owner and the organization's decryptor roles may decrypt a supplier's encrypted data
+     */
+    function _canDecrypt(uint256 _supplierId, address _account) internal view returns (bool) {
+        return suppliers[_supplierId].owner == _account || _isDecryptor(_orgOf(_supplierId), _account);
+    }
+
+    /**
+     * @dev Owners of either supplier and any role holder of their organization may run encrypted comparisons
+     *
+     * Both suppliers must belong to the same organization.
+     */
+    function _canCompare(uint256 _supplierId1, uint256 _supplierId2, address _account) internal view returns (bool) {
+        require(_orgOf(_supplierId1) == _orgOf(_supplierId2), "Suppliers in different organizations");
+        return
+            suppliers[_supplierId1].owner == _account ||
+            suppliers[_supplierId2].owner == _account ||
+            _isRoleHolder(_orgOf(_supplierId1), _account);
+    }
+
+    /**
+     * @dev Admin or procurement manager of the organization
+     */
+    function _isManager(uint256 _orgId, address _account) internal view returns (bool) {
+        return hasRole(_orgId, ADMIN_ROLE, _account) || hasRole(_orgId, PROCUREMENT_MANAGER_ROLE, _account);
+    }
+
+    /**
+     * @dev Admin, procurement manager or auditor of the organization
+     */
+    function _isDecryptor(uint256 _orgId, address _account) internal view returns (bool) {
+        return _isManager(_orgId, _account) || hasRole(_orgId, AUDITOR_ROLE, _account);
+    }
+
+    function _isRoleHolder(uint256 _orgId, address _account) internal view returns (bool) {
+        return _isDecryptor(_orgId, _account) || hasRole(_orgId, VIEWER_ROLE, _account);
+    }
+
+    function _grantRole(uint256 _orgId, bytes32 _role, address _account) internal {
+        roles[_orgId][_role][_account] = true;
+        roleMembers[_orgId][_role].push(_account);
+
+        emit RoleGranted(_orgId, _role, _account, msg.sender);
+    }
+
+    function _isKnownRole(bytes32 _role) internal pure returns (bool) {
+        return _isDecryptorRole(_role) || _role == VIEWER_ROLE;
+    }
+
+    function _isDecryptorRole(bytes32 _role) internal pure returns (bool) {
+        return _role == ADMIN_ROLE || _role == PROCUREMENT_MANAGER_ROLE || _role == AUDITOR_ROLE;
+    }
+
+    /**
+     * @dev Allow an account on the current value of every encrypted field of a supplier
+     *
+     * Past rating versions are not covered; their number is unbounded.
+     */
+    function _allowCurrentHandles(uint256 _supplierId, address _account) internal {
+        FHE.allow(suppliers[_supplierId].rating, _account);
+        FHE.allow(suppliers[_supplierId].isPreferred, _account);
+
+        Scorecard storage card = scorecards[_supplierId];
+        if (card.exists) {
+            FHE.allow(card.quality, _account);
+            FHE.allow(card.delivery, _account);
+            FHE.allow(card.price, _account);
+            FHE.allow(card.compliance, _account);
+            FHE.allow(card.composite, _account);
+        }
+
+        if (ratingAggregates[_supplierId].raterCount > 0) {
+            FHE.allow(ratingAggregates[_supplierId].average, _account);
+        }
+
+        DeliveryKpis storage kpis = deliveryKpis[_supplierId];
+        if (kpis.exists) {
+            FHE.allow(kpis.deliveries, _account);
+            FHE.allow(kpis.onTimeDeliveries, _account);
+            FHE.allow(kpis.unitsDelivered, _account);
+            FHE.allow(kpis.defectiveUnits, _account);
+        }
+    }
+
+    /**
+     * @dev Grant the contract, the supplier owner and all decryptor-role holders access to a handle
+     */
+    function _allowDecryptors(euint8 _value, uint256 _supplierId) internal {
+        FHE.allowThis(_value);
+        address[] memory accounts = _decryptors(_supplierId);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            FHE.allow(_value, accounts[i]);
+        }
+    }
+
+    function _allowDecryptors(euint16 _value, uint256 _supplierId) internal {
+        FHE.allowThis(_value);
+        address[] memory accounts = _decryptors(_supplierId);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            FHE.allow(_value, accounts[i]);
+        }
+    }
+
+    function _allowDecryptors(euint32 _value, uint256 _supplierId) internal {
+        FHE.allowThis(_value);
+        address[] memory accounts = _decryptors(_supplierId);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            FHE.allow(_value, accounts[i]);
+        }
+    }
+
+    function _allowDecryptors(euint64 _value, uint256 _supplierId) internal {
+        FHE.allowThis(_value);
+        address[] memory accounts = _decryptors(_supplierId);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            FHE.allow(_value, accounts[i]);
+        }
+    }
+
+    function _allowDecryptors(ebool _value, uint256 _supplierId) internal {
+        FHE.allowThis(_value);
+        address[] memory accounts = _decryptors(_supplierId);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            FHE.allow(_value, accounts[i]);
+        }
+    }
+
+    /**
+     * @dev Supplier owner followed by every admin, procurement manager and auditor of its organization
+     */
+    function _decryptors(uint256 _supplierId) internal view returns (address[] memory accounts) {
+        uint256 orgId = _orgOf(_supplierId);
+        address[] storage admins = roleMembers[orgId][ADMIN_ROLE];
+        address[] storage managers = roleMembers[orgId][PROCUREMENT_MANAGER_ROLE];
+        address[] storage auditors = roleMembers[orgId][AUDITOR_ROLE];
+
+        accounts = new address[](1 + admins.length + managers.length + auditors.length);
+        uint256 n = 0;
+        accounts[n++] = suppliers[_supplierId].owner;
+        for (uint256 i = 0; i < admins.length; i++) {
+            accounts[n++] = admins[i];
+        }
+        for (uint256 i = 0; i < managers.length; i++) {
+            accounts[n++] = managers[i];
+        }
+        for (uint256 i = 0; i < auditors.length; i++) {
+            accounts[n++] = auditors[i];
+        }
+    }
+}
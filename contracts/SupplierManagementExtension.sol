@@ -0,0 +1,748 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {
+    FHE,
+    euint8,
+    euint32,
+    euint64,
+    ebool,
+    externalEuint8,
+    externalEuint32,
+    externalEbool
+} from "@fhevm/solidity/lib/FHE.sol";
+import { SupplierManagementBase } from "./SupplierManagementBase.sol";
+
+/**
+ * @title Supplier Management Extension
+ * @notice Additional SupplierManagement entry points, reached through its fallback
+ * @dev Only meaningful when called through SupplierManagement: every function
+ * runs by delegatecall against SupplierManagement's storage and ACL permissions.
+ * Calling this contract directly operates on its own, empty storage.
+ *
+ * ## Key Concepts Demonstrated
+ * - Organizations sharing one deployment without sharing encrypted data
+ * - Batch onboarding with many encrypted inputs under one proof
+ * - Encrypted argmax / top-N with FHE.gt and FHE.select
+ * - Masking already-selected candidates under encryption with FHE.eq
+ * - Encrypted compliance thresholds checked with FHE.ge
+ * - Preferred status derived from the encrypted rating with a plaintext threshold
+ * - Encrypted delivery KPI counters accumulated with FHE.add
+ * - Access rotation by re-keying encrypted fields
+ * - Paginated ACL backfill for newly granted decryptor roles
+ * - Off-chain encrypted contact details with on-chain hash commitments
+ */
+contract SupplierManagementExtension is SupplierManagementBase {
+    /**
+     * @dev Create an organization; the caller becomes its first admin
+     * @param _name Organization name (public)
+     * @return orgId ID of the new organization
+     *
+     * ## Pattern: Tenant-Scoped ACL
+     * Organizations share this contract's storage but nothing else. Roles
+     * are granted per organization, and encrypted fields are only ever
+     * FHE.allow-ed to the supplier owner and the decryptor roles of the
+     * supplier's own organization, so no role in one organization can
+     * decrypt another organization's data. Every supplier ID carries its
+     * organization in the high 128 bits, so each organization numbers its
+     * suppliers from 1 without colliding with the others.
+     */
+    function createOrganization(string calldata _name) external returns (uint256 orgId) {
+        return _createOrganization(_name);
+    }
+
+    /**
+     * @dev Get an organization's public details
+     * @param _orgId The organization
+     * @return name Organization name
+     * @return supplierCount Number of suppliers registered with it
+     */
+    function getOrganization(uint256 _orgId) external view returns (string memory name, uint256 supplierCount) {
+        _requireOrganization(_orgId);
+        Organization storage org = organizations[_orgId];
+        return (org.name, org.supplierCount);
+    }
+
+    /**
+     * @dev List an organization's categories in order of first use
+     * @param _orgId The organization
+     */
+    function getCategories(uint256 _orgId) external view returns (string[] memory) {
+        _requireOrganization(_orgId);
+        return organizationCategories[_orgId];
+    }
+
+    /**
+     * @dev Number of suppliers ever registered in an organization's category, including archived ones
+     * @param _orgId The organization
+     * @param _category The category
+     */
+    function getCategorySupplierCount(uint256 _orgId, string calldata _category) external view returns (uint256) {
+        return categorySuppliers[_categoryKey(_orgId, _category)].length;
+    }
+
+    /**
+     * @dev Supplier ID of an organization's Nth supplier
+     * @param _orgId The organization
+     * @param _number Supplier number within the organization, starting at 1
+     */
+    function supplierIdOf(uint256 _orgId, uint256 _number) external pure returns (uint256) {
+        require(_number <= type(uint128).max, "Invalid supplier number");
+        return _toSupplierId(_orgId, _number);
+    }
+
+    /**
+     * @dev Organization a supplier ID belongs to
+     * @param _supplierId The supplier ID
+     */
+    function organizationOf(uint256 _supplierId) external pure returns (uint256) {
+        return _orgOf(_supplierId);
+    }
+
+    /**
+     * @dev Add several suppliers in one transaction, ratings and preferences encrypted client-side
+     * @param _orgId Organization the suppliers register with
+     * @param _suppliers Between 1 and MAX_BATCH_SIZE suppliers, added in order
+     * @param _inputProof Proof of correct encryption covering every row's handles
+     * @return supplierIds IDs of the new suppliers, in input order
+     *
+     * ## Pattern: Batched Encrypted Inputs
+     * One encrypted input can carry many values, so the client encrypts the
+     * whole batch at once and the contract verifies each handle against the
+     * same proof. Rows go through the same checks as addSupplier, and one
+     * invalid row reverts the whole batch.
+     */
+    function addSuppliersBatch(
+        uint256 _orgId,
+        SupplierInput[] calldata _suppliers,
+        bytes calldata _inputProof
+    ) external returns (uint256[] memory supplierIds) {
+        require(_suppliers.length > 0, "Batch is empty");
+        require(_suppliers.length <= MAX_BATCH_SIZE, "Batch too large");
+
+        supplierIds = new uint256[](_suppliers.length);
+        for (uint256 i = 0; i < _suppliers.length; i++) {
+            SupplierInput calldata row = _suppliers[i];
+            euint8 rating = _clampRating(FHE.fromExternal(row.encryptedRating, _inputProof));
+            ebool isPreferred = FHE.fromExternal(row.encryptedPreferred, _inputProof);
+            supplierIds[i] = _addSupplier(_orgId, row.name, row.category, row.contact, rating, isPreferred);
+        }
+    }
+
+    /**
+     * @dev Find the best-rated supplier in a category without decrypting any rating (role holders only)
+     * @param _orgId The organization
+     * @param _category Category to search
+     * @return bestSupplierNumber Encrypted number of the top supplier within the organization (only the caller
+     * can decrypt)
+     */
+    function findBestInCategory(
+        uint256 _orgId,
+        string calldata _category
+    ) external returns (euint32 bestSupplierNumber) {
+        return rankCategory(_orgId, _category, 1)[0];
+    }
+
+    /**
+     * @dev Rank the top N suppliers of an organization's category by encrypted rating (role holders only)
+     * @param _orgId The organization
+     * @param _category Category to rank
+     * @param _n Number of places, 1 to MAX_TOP_N
+     * @return ranking Encrypted supplier numbers within the organization, best first; 0 marks an empty place
+     *
+     * ## Pattern: Encrypted Argmax
+     * A running maximum and the ID holding it are both encrypted. Each
+     * candidate is compared with FHE.gt, and the resulting ebool drives two
+     * FHE.select calls, so the scan never branches on encrypted data. Strict
+     * comparison keeps the earliest-registered supplier on ties.
+     *
+     * For places after the first, already-ranked candidates are masked to
+     * rating 0 by matching their ID against the previous winner under
+     * encryption. Only the resulting IDs are granted to the caller, so
+     * decrypting them reveals the winners but no rating. Archived and
+     * suspended suppliers are skipped. Cost grows with _n * candidates, so
+     * a category with more than MAX_RANKING_CANDIDATES rankable suppliers
+     * is ranked window by window with rankCategoryWindow instead.
+     * Supplier IDs do not fit in 32 bits, so the ranking holds supplier
+     * numbers; supplierIdOf turns a decrypted number back into an ID.
+     */
+    function rankCategory(
+        uint256 _orgId,
+        string calldata _category,
+        uint256 _n
+    ) public returns (euint32[] memory ranking) {
+        return _rank(_orgId, _category, _n, 0, categorySuppliers[_categoryKey(_orgId, _category)].length, false);
+    }
+
+    /**
+     * @dev Rank one window of a category's suppliers, merged with the caller's ranking of the windows before it
+     * @param _orgId The organization
+     * @param _category Category to rank
+     * @param _n Number of places, 1 to MAX_TOP_N; the same for every window of one ranking
+     * @param _offset Index of the window's first supplier in the category, in registration order
+     * @param _limit Window size, at most MAX_RANKING_CANDIDATES
+     * @return ranking Encrypted supplier numbers within the organization, best first; 0 marks an empty place
+     *
+     * A window at offset 0 starts a new ranking. Every later window also
+     * competes the caller's current places, with their encrypted ratings,
+     * against its own suppliers, so after windows covering
+     * getCategorySupplierCount the result equals rankCategory over the
+     * whole category.
+     */
+    function rankCategoryWindow(
+        uint256 _orgId,
+        string calldata _category,
+        uint256 _n,
+        uint256 _offset,
+        uint256 _limit
+    ) external returns (euint32[] memory ranking) {
+        require(_limit <= MAX_RANKING_CANDIDATES, "Too many suppliers in category");
+        return _rank(_orgId, _category, _n, _offset, _limit, _offset > 0);
+    }
+
+    /**
+     * @dev Get the caller's latest encrypted ranking for an organization's category
+     * @param _orgId The organization
+     * @param _category Category ranked with rankCategory or findBestInCategory
+     */
+    function getCategoryRanking(uint256 _orgId, string calldata _category) external view returns (euint32[] memory) {
+        return categoryRankings[msg.sender][_categoryKey(_orgId, _category)];
+    }
+
+    /**
+     * @dev Set the encrypted minimum rating suppliers of a category must meet (organization admin only)
+     * @param _orgId The organization
+     * @param _category Category the threshold applies to
+     * @param _encryptedThreshold Minimum rating, encrypted by the client
+     * @param _inputProof Proof of correct encryption
+     *
+     * Only the contract and the admin who set it can decrypt the threshold.
+     */
+    function setCategoryThreshold(
+        uint256 _orgId,
+        string calldata _category,
+        externalEuint8 _encryptedThreshold,
+        bytes calldata _inputProof
+    ) external {
+        require(hasRole(_orgId, ADMIN_ROLE, msg.sender), "Only admin can set thresholds");
+        require(bytes(_category).length > 0, "Category cannot be empty");
+
+        euint8 threshold = FHE.fromExternal(_encryptedThreshold, _inputProof);
+        FHE.allowThis(threshold);
+        FHE.allow(threshold, msg.sender);
+
+        bytes32 categoryKey = _categoryKey(_orgId, _category);
+        categoryThresholds[categoryKey] = threshold;
+        hasCategoryThreshold[categoryKey] = true;
+
+        emit ComplianceThresholdSet(_orgId, categoryKey, msg.sender, _category);
+    }
+
+    /**
+     * @dev Get the encrypted minimum rating of an organization's category
+     * @param _orgId The organization
+     * @param _category Category with a threshold set by setCategoryThreshold
+     */
+    function getCategoryThreshold(uint256 _orgId, string calldata _category) external view returns (euint8) {
+        bytes32 categoryKey = _categoryKey(_orgId, _category);
+        require(hasCategoryThreshold[categoryKey], "No threshold for category");
+        return categoryThresholds[categoryKey];
+    }
+
+    /**
+     * @dev Check whether a supplier meets its category's minimum rating (supplier owner or role holders)
+     * @param _supplierId The supplier ID
+     * @return compliant Encrypted rating >= threshold (only the caller can decrypt)
+     *
+     * ## Pattern: Encrypted Threshold Check
+     * FHE.ge compares two ciphertexts and yields an ebool, so decrypting the
+     * result reveals pass or fail but neither the rating nor the threshold.
+     */
+    function checkCompliance(uint256 _supplierId) external returns (ebool compliant) {
+        _requireActive(_supplierId);
+        require(
+            suppliers[_supplierId].owner == msg.sender || _isRoleHolder(_orgOf(_supplierId), msg.sender),
+            "Not authorized to check compliance"
+        );
+
+        compliant = _meetsThreshold(_supplierId);
+
+        // Only the caller may decrypt the result
+        FHE.allowThis(compliant);
+        FHE.allow(compliant, msg.sender);
+
+        complianceResults[msg.sender][_supplierId] = compliant;
+
+        emit ComplianceChecked(_supplierId, msg.sender, compliant);
+    }
+
+    /**
+     * @dev Get the caller's latest encrypted compliance result for a supplier
+     * @param _supplierId The supplier ID
+     */
+    function getComplianceResult(uint256 _supplierId) external view returns (ebool) {
+        return complianceResults[msg.sender][_supplierId];
+    }
+
+    /**
+     * @dev Compliance hook for other contracts, such as purchase orders (role holders only)
+     * @param _supplierId The supplier ID; must be approved
+     * @return compliant Encrypted rating >= threshold, allowed to the caller for this transaction only
+     *
+     * ## Pattern: Encrypted Guard
+     * A contract cannot revert on an encrypted condition without decrypting
+     * it. Plaintext preconditions revert here; the encrypted outcome is
+     * returned for the caller to fold into its own values with FHE.select,
+     * e.g. turning an order for a non-compliant supplier into a zero amount.
+     * FHE.allowTransient keeps the result out of the persistent ACL.
+     */
+    function requireCompliant(uint256 _supplierId) external returns (ebool compliant) {
+        require(_isRoleHolder(_orgOf(_supplierId), msg.sender), "Not authorized to check compliance");
+        _requireExists(_supplierId);
+        require(suppliers[_supplierId].state == SupplierState.Approved, "Supplier not approved");
+
+        compliant = _meetsThreshold(_supplierId);
+        FHE.allowTransient(compliant, msg.sender);
+    }
+
+    /**
+     * @dev Turn automatic preferred status on or off for an organization (organization admin only)
+     * @param _orgId The organization
+     * @param _enabled Whether preferred status is derived from ratings
+     * @param _threshold Minimum rating (1-10) for preferred status; ignored when disabling
+     *
+     * ## Pattern: Derived Encrypted Flag
+     * isPreferred becomes FHE.ge(rating, threshold), recomputed on each
+     * rating update. The threshold is a public policy; the rating and the
+     * resulting flag stay encrypted. Suppliers whose preference was set
+     * manually while auto mode was on keep that value until
+     * clearPreferenceOverride.
+     *
+     * Only the configuration is stored here, so the cost does not grow with
+     * the organization. Existing suppliers keep their current flag until
+     * recomputePreferences reaches them.
+     */
+    function setAutoPreferred(uint256 _orgId, bool _enabled, uint8 _threshold) external {
+        require(hasRole(_orgId, ADMIN_ROLE, msg.sender), "Only admin can configure auto preference");
+        require(!_enabled || (_threshold >= 1 && _threshold <= 10), "Threshold must be between 1 and 10");
+
+        autoPreferredEnabled[_orgId] = _enabled;
+        preferredThreshold[_orgId] = _enabled ? _threshold : 0;
+
+        emit AutoPreferredConfigured(_orgId, _enabled, preferredThreshold[_orgId], msg.sender);
+    }
+
+    /**
+     * @dev Derive the preferred flag of a page of an organization's suppliers (organization admin only)
+     * @param _orgId The organization; auto mode must be on
+     * @param _offset Number of suppliers to skip, in registration order
+     * @param _limit Maximum number of suppliers, at most MAX_ACCESS_BACKFILL
+     *
+     * Run over every page after enabling auto mode or changing the
+     * threshold. Archived and overridden suppliers are skipped.
+     */
+    function recomputePreferences(uint256 _orgId, uint256 _offset, uint256 _limit) external {
+        require(hasRole(_orgId, ADMIN_ROLE, msg.sender), "Only admin can configure auto preference");
+        require(autoPreferredEnabled[_orgId], "Auto preference is disabled");
+        require(_limit <= MAX_ACCESS_BACKFILL, "Range too large");
+
+        uint256 count = organizations[_orgId].supplierCount;
+        uint256 end = _offset + _limit > count ? count : _offset + _limit;
+        for (uint256 n = _offset + 1; n <= end; n++) {
+            uint256 id = _toSupplierId(_orgId, n);
+            if (suppliers[id].state != SupplierState.Archived && !preferenceOverridden[id]) {
+                _derivePreference(id);
+            }
+        }
+    }
+
+    /**
+     * @dev Get an organization's automatic preferred status configuration
+     * @param _orgId The organization
+     */
+    function getAutoPreferred(uint256 _orgId) external view returns (bool enabled, uint8 threshold) {
+        return (autoPreferredEnabled[_orgId], preferredThreshold[_orgId]);
+    }
+
+    /**
+     * @dev Tell whether a supplier's preferred flag is manual, auto-derived or a manual override
+     * @param _supplierId The supplier ID
+     */
+    function getPreferenceSource(uint256 _supplierId) external view returns (PreferenceSource) {
+        _requireExists(_supplierId);
+        if (!autoPreferredEnabled[_orgOf(_supplierId)]) return PreferenceSource.Manual;
+        return preferenceOverridden[_supplierId] ? PreferenceSource.Overridden : PreferenceSource.Auto;
+    }
+
+    /**
+     * @dev Drop a manual override and re-derive the preferred flag from the rating (owner or manager)
+     * @param _supplierId The supplier ID
+     */
+    function clearPreferenceOverride(uint256 _supplierId) external {
+        _requireOwner(_supplierId);
+        require(autoPreferredEnabled[_orgOf(_supplierId)], "Auto preference is disabled");
+        require(preferenceOverridden[_supplierId], "Preference not overridden");
+
+        preferenceOverridden[_supplierId] = false;
+        emit PreferenceOverrideChanged(_supplierId, msg.sender, false);
+
+        _derivePreference(_supplierId);
+    }
+
+    /**
+     * @dev Point a supplier at a new encrypted contact blob (owner or manager)
+     * @param _supplierId The supplier ID
+     * @param _contact Hash and pointer of the new blob
+     *
+     * ## Pattern: Off-Chain Ciphertext, On-Chain Commitment
+     * Contact details are encrypted client-side to the owner and decryptor
+     * roles and stored off-chain. The chain keeps only the blob's keccak256
+     * hash, so readers can detect a swapped or corrupted blob. Re-encrypt
+     * and update the commitment whenever the set of decryptors changes.
+     */
+    function updateSupplierContact(uint256 _supplierId, ContactCommitment calldata _contact) external {
+        _requireOwner(_supplierId);
+
+        suppliers[_supplierId].contact = _contact;
+
+        emit SupplierContactUpdated(_supplierId, msg.sender, _contact.contentHash, _contact.pointer);
+    }
+
+    /**
+     * @dev Record one delivery's performance (admin or procurement manager)
+     * @param _supplierId The supplier ID
+     * @param _onTime Whether the delivery was on time, encrypted by the client
+     * @param _units Units delivered, encrypted by the client
+     * @param _defects Defective units, encrypted by the client; capped at _units
+     * @param _inputProof Proof of correct encryption, shared by all three inputs
+     *
+     * ## Pattern: Encrypted Counters
+     * The delivery's values are folded into the supplier's encrypted totals
+     * and never stored on their own; only the fact that a delivery was
+     * recorded is public. The on-time flag becomes 0 or 1 with
+     * FHE.asEuint32, so it can be summed like any other counter.
+     */
+    function recordDelivery(
+        uint256 _supplierId,
+        externalEbool _onTime,
+        externalEuint32 _units,
+        externalEuint32 _defects,
+        bytes calldata _inputProof
+    ) external {
+        require(_isManager(_orgOf(_supplierId), msg.sender), "Only admin or manager can record deliveries");
+        _requireActive(_supplierId);
+
+        ebool onTime = FHE.fromExternal(_onTime, _inputProof);
+        euint32 units = FHE.fromExternal(_units, _inputProof);
+        euint32 defects = FHE.min(FHE.fromExternal(_defects, _inputProof), units);
+
+        DeliveryKpis storage kpis = deliveryKpis[_supplierId];
+        kpis.deliveries = FHE.add(kpis.deliveries, uint32(1));
+        kpis.onTimeDeliveries = FHE.add(kpis.onTimeDeliveries, FHE.asEuint32(onTime));
+        kpis.unitsDelivered = FHE.add(kpis.unitsDelivered, FHE.asEuint64(units));
+        kpis.defectiveUnits = FHE.add(kpis.defectiveUnits, FHE.asEuint64(defects));
+        kpis.exists = true;
+
+        _allowDecryptors(kpis.deliveries, _supplierId);
+        _allowDecryptors(kpis.onTimeDeliveries, _supplierId);
+        _allowDecryptors(kpis.unitsDelivered, _supplierId);
+        _allowDecryptors(kpis.defectiveUnits, _supplierId);
+
+        emit DeliveryRecorded(_supplierId, msg.sender);
+    }
+
+    /**
+     * @dev Get a supplier's encrypted delivery KPIs (owner and decryptor roles can decrypt)
+     * @param _supplierId The supplier ID
+     *
+     * On-time ratio = onTimeDeliveries / deliveries and defect rate =
+     * defectiveUnits / unitsDelivered. FHE can only divide by plaintext, so
+     * authorized readers decrypt numerator and denominator and divide
+     * client-side. Values are read with user decryption, which keeps the
+     * plaintext off chain.
+     */
+    function getDeliveryKpis(uint256 _supplierId)
+        external
+        view
+        returns (euint32 deliveries, euint32 onTimeDeliveries, euint64 unitsDelivered, euint64 defectiveUnits)
+    {
+        _requireExists(_supplierId);
+        DeliveryKpis storage kpis = deliveryKpis[_supplierId];
+        require(kpis.exists, "No deliveries recorded");
+
+        return (kpis.deliveries, kpis.onTimeDeliveries, kpis.unitsDelivered, kpis.defectiveUnits);
+    }
+
+    /**
+     * @dev Re-key a supplier's encrypted fields so only the current decryptors can read them (admin only)
+     * @param _supplierId The supplier ID
+     *
+     * ## Pattern: Access Rotation
+     * FHE ACL entries cannot be removed. Instead, every encrypted field is
+     * recomputed by adding an encrypted zero, which yields a fresh handle
+     * holding the same value. The fresh handles are granted only to the
+     * owner and current role holders; the old handles are dropped from
+     * storage, so revoked accounts are left with stale ciphertexts.
+     *
+     * Only the live fields are re-keyed here, so the cost does not grow
+     * with the supplier's history. Past rating versions are re-keyed in
+     * pages with rotateRatingHistory.
+     */
+    function rotateAccess(uint256 _supplierId) external {
+        require(hasRole(_orgOf(_supplierId), ADMIN_ROLE, msg.sender), "Only admin can rotate access");
+        _requireExists(_supplierId);
+
+        euint8 zero = FHE.asEuint8(0);
+
+        // The last history entry is the current rating
+        Supplier storage supplier = suppliers[_supplierId];
+        RatingHistoryEntry[] storage history = ratingHistory[_supplierId];
+        supplier.rating = FHE.add(supplier.rating, zero);
+        _allowDecryptors(supplier.rating, _supplierId);
+        history[history.length - 1].rating = supplier.rating;
+
+        supplier.isPreferred = FHE.or(supplier.isPreferred, FHE.asEbool(false));
+        _allowDecryptors(supplier.isPreferred, _supplierId);
+
+        Scorecard storage card = scorecards[_supplierId];
+        if (card.exists) {
+            card.quality = FHE.add(card.quality, zero);
+            card.delivery = FHE.add(card.delivery, zero);
+            card.price = FHE.add(card.price, zero);
+            card.compliance = FHE.add(card.compliance, zero);
+            card.composite = FHE.add(card.composite, FHE.asEuint16(0));
+            _allowDecryptors(card.quality, _supplierId);
+            _allowDecryptors(card.delivery, _supplierId);
+            _allowDecryptors(card.price, _supplierId);
+            _allowDecryptors(card.compliance, _supplierId);
+            _allowDecryptors(card.composite, _supplierId);
+        }
+
+        RatingAggregate storage aggregate = ratingAggregates[_supplierId];
+        if (aggregate.raterCount > 0) {
+            aggregate.average = FHE.add(aggregate.average, zero);
+            _allowDecryptors(aggregate.average, _supplierId);
+        }
+
+        DeliveryKpis storage kpis = deliveryKpis[_supplierId];
+        if (kpis.exists) {
+            kpis.deliveries = FHE.add(kpis.deliveries, uint32(0));
+            kpis.onTimeDeliveries = FHE.add(kpis.onTimeDeliveries, uint32(0));
+            kpis.unitsDelivered = FHE.add(kpis.unitsDelivered, uint64(0));
+            kpis.defectiveUnits = FHE.add(kpis.defectiveUnits, uint64(0));
+            _allowDecryptors(kpis.deliveries, _supplierId);
+            _allowDecryptors(kpis.onTimeDeliveries, _supplierId);
+            _allowDecryptors(kpis.unitsDelivered, _supplierId);
+            _allowDecryptors(kpis.defectiveUnits, _supplierId);
+        }
+
+        accessVersion[_supplierId]++;
+
+        emit AccessRotated(_supplierId, msg.sender, accessVersion[_supplierId], _decryptors(_supplierId).length);
+    }
+
+    /**
+     * @dev Re-key a page of a supplier's past rating versions for the current decryptors (admin only)
+     * @param _supplierId The supplier ID
+     * @param _offset Index of the first version
+     * @param _limit Maximum number of versions, at most MAX_ACCESS_BACKFILL
+     *
+     * Completes rotateAccess, which re-keys the current rating, the last
+     * version. A page reaching past the other versions is cut short.
+     */
+    function rotateRatingHistory(uint256 _supplierId, uint256 _offset, uint256 _limit) external {
+        require(hasRole(_orgOf(_supplierId), ADMIN_ROLE, msg.sender), "Only admin can rotate access");
+        _requireExists(_supplierId);
+        require(_limit <= MAX_ACCESS_BACKFILL, "Range too large");
+
+        euint8 zero = FHE.asEuint8(0);
+        RatingHistoryEntry[] storage history = ratingHistory[_supplierId];
+        uint256 past = history.length - 1;
+        uint256 end = _offset + _limit > past ? past : _offset + _limit;
+        for (uint256 i = _offset; i < end; i++) {
+            history[i].rating = FHE.add(history[i].rating, zero);
+            _allowDecryptors(history[i].rating, _supplierId);
+        }
+    }
+
+    /**
+     * @dev Allow a decryptor-role holder on the current encrypted fields of a range of suppliers (admin only)
+     * @param _orgId The organization
+     * @param _account Admin, procurement manager or auditor of the organization
+     * @param _fromNumber First supplier number of the range, starting at 1
+     * @param _toNumber Last supplier number of the range, at most MAX_ACCESS_BACKFILL after the first
+     *
+     * ## Pattern: Paginated ACL Backfill
+     * grantRole only covers handles computed after the grant. Handles that
+     * already exist are FHE.allow-ed here one page of suppliers at a time,
+     * so no transaction's gas depends on the size of the organization.
+     * Past rating versions are backfilled per supplier with
+     * grantRatingHistoryAccess, since a supplier's history only grows.
+     */
+    function grantRoleAccess(uint256 _orgId, address _account, uint256 _fromNumber, uint256 _toNumber) external {
+        require(hasRole(_orgId, ADMIN_ROLE, msg.sender), "Only admin can manage roles");
+        require(_isDecryptor(_orgId, _account), "Account has no decryptor role");
+        require(
+            _fromNumber > 0 && _fromNumber <= _toNumber && _toNumber <= organizations[_orgId].supplierCount,
+            "Invalid supplier range"
+        );
+        require(_toNumber - _fromNumber < MAX_ACCESS_BACKFILL, "Range too large");
+
+        for (uint256 n = _fromNumber; n <= _toNumber; n++) {
+            _allowCurrentHandles(_toSupplierId(_orgId, n), _account);
+        }
+    }
+
+    /**
+     * @dev Allow a decryptor-role holder on a page of a supplier's past rating versions (admin only)
+     * @param _supplierId The supplier ID
+     * @param _account Admin, procurement manager or auditor of the supplier's organization
+     * @param _offset Index of the first version
+     * @param _limit Maximum number of versions, at most MAX_ACCESS_BACKFILL
+     */
+    function grantRatingHistoryAccess(
+        uint256 _supplierId,
+        address _account,
+        uint256 _offset,
+        uint256 _limit
+    ) external {
+        uint256 orgId = _orgOf(_supplierId);
+        require(hasRole(orgId, ADMIN_ROLE, msg.sender), "Only admin can manage roles");
+        _requireExists(_supplierId);
+        require(_isDecryptor(orgId, _account), "Account has no decryptor role");
+        require(_limit <= MAX_ACCESS_BACKFILL, "Range too large");
+
+        RatingHistoryEntry[] storage history = ratingHistory[_supplierId];
+        uint256 end = _offset + _limit > history.length ? history.length : _offset + _limit;
+        for (uint256 i = _offset; i < end; i++) {
+            FHE.allow(history[i].rating, _account);
+        }
+    }
+
+    /**
+     * @dev Rank a window of a category by encrypted argmax, optionally carrying the caller's previous places in
+     */
+    function _rank(
+        uint256 _orgId,
+        string calldata _category,
+        uint256 _n,
+        uint256 _offset,
+        uint256 _limit,
+        bool _carry
+    ) internal returns (euint32[] memory ranking) {
+        require(_isRoleHolder(_orgId, msg.sender), "Not authorized to rank");
+        require(_n >= 1 && _n <= MAX_TOP_N, "Invalid ranking size");
+
+        bytes32 categoryKey = _categoryKey(_orgId, _category);
+        if (_carry) {
+            require(categoryRankings[msg.sender][categoryKey].length == _n, "Rank the first window first");
+        }
+        (euint8[] memory ratings, euint32[] memory numbers) = _rankingCandidates(categoryKey, _offset, _limit, _carry);
+        require(numbers.length > 0, "No suppliers in category");
+
+        euint8[] memory placeRatings;
+        (ranking, placeRatings) = _topN(ratings, numbers, _n);
+
+        // Only the caller may decrypt the winners; their ratings stay with the contract
+        delete categoryRankings[msg.sender][categoryKey];
+        delete categoryRankingRatings[msg.sender][categoryKey];
+        for (uint256 place = 0; place < _n; place++) {
+            FHE.allowThis(ranking[place]);
+            FHE.allow(ranking[place], msg.sender);
+            FHE.allowThis(placeRatings[place]);
+            categoryRankings[msg.sender][categoryKey].push(ranking[place]);
+            categoryRankingRatings[msg.sender][categoryKey].push(placeRatings[place]);
+        }
+
+        emit CategoryRanked(_orgId, categoryKey, msg.sender, _category, ranking);
+    }
+
+    /**
+     * @dev Encrypted top-N of the candidates: the winning supplier numbers and their ratings, best first
+     */
+    function _topN(
+        euint8[] memory _ratings,
+        euint32[] memory _numbers,
+        uint256 _n
+    ) internal returns (euint32[] memory ranking, euint8[] memory placeRatings) {
+        ranking = new euint32[](_n);
+        placeRatings = new euint8[](_n);
+        ebool[] memory taken = new ebool[](_numbers.length);
+        euint8 zero = FHE.asEuint8(0);
+
+        for (uint256 place = 0; place < _n; place++) {
+            euint8 best = zero;
+            euint32 bestNumber = FHE.asEuint32(0);
+
+            for (uint256 i = 0; i < _numbers.length; i++) {
+                euint8 rating = place == 0 ? _ratings[i] : FHE.select(taken[i], zero, _ratings[i]);
+                ebool better = FHE.gt(rating, best);
+                best = FHE.select(better, rating, best);
+                bestNumber = FHE.select(better, _numbers[i], bestNumber);
+            }
+            ranking[place] = bestNumber;
+            placeRatings[place] = best;
+
+            if (place + 1 < _n) {
+                for (uint256 i = 0; i < _numbers.length; i++) {
+                    ebool isWinner = FHE.eq(bestNumber, _numbers[i]);
+                    taken[i] = place == 0 ? isWinner : FHE.or(taken[i], isWinner);
+                }
+            }
+        }
+    }
+
+    /**
+     * @dev Collect the caller's carried places, then the suppliers in a window of a category that are neither
+     * archived nor suspended
+     *
+     * Carried places come first: they were registered earlier, so ties
+     * still keep the earliest supplier.
+     */
+    function _rankingCandidates(
+        bytes32 _categoryKey,
+        uint256 _offset,
+        uint256 _limit,
+        bool _carry
+    ) internal returns (euint8[] memory ratings, euint32[] memory numbers) {
+        uint256[] storage categoryIds = categorySuppliers[_categoryKey];
+        uint256 end = _offset >= categoryIds.length ? _offset : categoryIds.length;
+        if (end - _offset > _limit) end = _offset + _limit;
+
+        uint256 count = 0;
+        for (uint256 i = _offset; i < end; i++) {
+            if (_isRankable(categoryIds[i])) count++;
+        }
+        require(count <= MAX_RANKING_CANDIDATES, "Too many suppliers in category");
+
+        euint32[] storage carried = categoryRankings[msg.sender][_categoryKey];
+        uint256 n = _carry ? carried.length : 0;
+        ratings = new euint8[](n + count);
+        numbers = new euint32[](n + count);
+        for (uint256 i = 0; i < n; i++) {
+            ratings[i] = categoryRankingRatings[msg.sender][_categoryKey][i];
+            numbers[i] = carried[i];
+        }
+        for (uint256 i = _offset; i < end; i++) {
+            if (_isRankable(categoryIds[i])) {
+                ratings[n] = suppliers[categoryIds[i]].rating;
+                // Truncating the ID to 32 bits leaves the supplier number
+                numbers[n++] = FHE.asEuint32(uint32(categoryIds[i]));
+            }
+        }
+    }
+
+    /**
+     * @dev Encrypted rating >= category threshold; reverts if the category has no threshold
+     */
+    function _meetsThreshold(uint256 _supplierId) internal returns (ebool) {
+        bytes32 categoryKey = _categoryKey(_orgOf(_supplierId), suppliers[_supplierId].category);
+        require(hasCategoryThreshold[categoryKey], "No threshold for category");
+        return FHE.ge(suppliers[_supplierId].rating, categoryThresholds[categoryKey]);
+    }
+
+    function _isRankable(uint256 _supplierId) internal view returns (bool) {
+        SupplierState state = suppliers[_supplierId].state;
+        return state != SupplierState.Archived && state != SupplierState.Suspended;
+    }
+}
@@ -0,0 +1,293 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { SupplierManagement } from "./SupplierManagement.sol";
+import { SupplierManagementBase } from "./SupplierManagementBase.sol";
+
+/**
+ * @title Supplier RFQ
+ * @notice Sealed-bid requests for quotation over suppliers registered in SupplierManagement
+ * @dev Bids stay encrypted for the whole round; only the winning price and supplier are revealed
+ *
+ * ## Overview
+ * A buyer (admin or procurement manager of a SupplierManagement organization)
+ * opens an RFQ for one of the organization's categories. Approved suppliers
+ * of that organization and category submit one encrypted bid each before the
+ * deadline, each from the bidder address assigned to it here. The contract keeps an encrypted
+ * running minimum and the encrypted index of the lowest bid, so no one,
+ * including the buyer, learns any individual price.
+ *
+ * ## Key Concepts Demonstrated
+ * - Encrypted 64-bit inputs (externalEuint64)
+ * - Encrypted argmin with FHE.lt and FHE.select
+ * - Selective reveal through async decryption of two handles
+ * - Cross-contract authorization against SupplierManagement roles
+ */
+contract SupplierRFQ is SepoliaConfig {
+    enum RFQStatus {
+        None,
+        Open,
+        Closing, // decryption of the winner requested
+        Awarded
+    }
+
+    struct RFQ {
+        uint256 orgId;
+        address buyer;
+        string category;
+        uint64 deadline;
+        RFQStatus status;
+        euint64 lowestBid; // encrypted running minimum
+        euint32 winningIndex; // encrypted index into bidSupplierIds
+        uint256 winningSupplierId; // set once awarded
+        uint64 winningPrice; // set once awarded
+    }
+
+    SupplierManagement public immutable supplierManagement;
+
+    mapping(uint256 => RFQ) private rfqs;
+    uint256 public rfqCount;
+
+    // rfqId => supplier IDs in bid order
+    mapping(uint256 => uint256[]) private bidSupplierIds;
+    // rfqId => supplierId => encrypted bid (only the bidder can decrypt)
+    mapping(uint256 => mapping(uint256 => euint64)) private bids;
+    mapping(uint256 => mapping(uint256 => bool)) public hasBid;
+
+    // decryption requestId => rfqId
+    mapping(uint256 => uint256) private awardRequests;
+
+    // supplierId => address allowed to bid for the supplier
+    mapping(uint256 => address) public supplierBidders;
+
+    event RFQOpened(
+        uint256 indexed rfqId,
+        uint256 indexed orgId,
+        address indexed buyer,
+        string category,
+        uint64 deadline
+    );
+    event BidSubmitted(uint256 indexed rfqId, uint256 indexed supplierId, address indexed bidder);
+    event RFQClosed(uint256 indexed rfqId, uint256 requestId, uint256 bidCount);
+    event RFQAwarded(uint256 indexed rfqId, uint256 indexed supplierId, uint64 price);
+    event SupplierBidderSet(uint256 indexed supplierId, address indexed bidder, address indexed setBy);
+
+    constructor(SupplierManagement _supplierManagement) {
+        supplierManagement = _supplierManagement;
+    }
+
+    /**
+     * @dev Open a new RFQ (organization admin or procurement manager)
+     * @param _orgId Organization whose suppliers are invited to bid
+     * @param _category Supplier category invited to bid
+     * @param _deadline Timestamp after which bids are rejected and the RFQ can be closed
+     * @return rfqId ID of the new RFQ
+     */
+    function openRFQ(uint256 _orgId, string calldata _category, uint64 _deadline) external returns (uint256 rfqId) {
+        require(
+            supplierManagement.hasRole(_orgId, supplierManagement.ADMIN_ROLE(), msg.sender) ||
+                supplierManagement.hasRole(_orgId, supplierManagement.PROCUREMENT_MANAGER_ROLE(), msg.sender),
+            "Only admin or manager can open RFQs"
+        );
+        require(bytes(_category).length > 0, "Category cannot be empty");
+        require(_deadline > block.timestamp, "Deadline must be in the future");
+
+        rfqId = ++rfqCount;
+
+        RFQ storage rfq = rfqs[rfqId];
+        rfq.orgId = _orgId;
+        rfq.buyer = msg.sender;
+        rfq.category = _category;
+        rfq.deadline = _deadline;
+        rfq.status = RFQStatus.Open;
+
+        emit RFQOpened(rfqId, _orgId, msg.sender, _category, _deadline);
+    }
+
+    /**
+     * @dev Set the address that bids for a supplier (organization admin or the supplier's current bidder)
+     * @param _supplierId The supplier ID
+     * @param _bidder Address controlled by the supplier; address(0) stops the supplier bidding
+     *
+     * The supplier's registering owner is often the buyer (batch imports,
+     * buyer-side registration), so ownership does not grant bidding. An admin
+     * assigns the supplier's own address; the supplier can then move bidding
+     * to another address without the admin.
+     */
+    function setSupplierBidder(uint256 _supplierId, address _bidder) external {
+        require(supplierManagement.supplierExists(_supplierId), "Supplier not registered");
+        uint256 orgId = _supplierId >> 128;
+        require(
+            supplierManagement.hasRole(orgId, supplierManagement.ADMIN_ROLE(), msg.sender) ||
+                supplierBidders[_supplierId] == msg.sender,
+            "Only admin or bidder can set bidder"
+        );
+        // Buyers could otherwise quote against their own RFQs
+        require(
+            !supplierManagement.hasRole(orgId, supplierManagement.ADMIN_ROLE(), _bidder) &&
+                !supplierManagement.hasRole(orgId, supplierManagement.PROCUREMENT_MANAGER_ROLE(), _bidder),
+            "Buyer cannot bid"
+        );
+
+        supplierBidders[_supplierId] = _bidder;
+        emit SupplierBidderSet(_supplierId, _bidder, msg.sender);
+    }
+
+    /**
+     * @dev Submit a sealed bid as the supplier's assigned bidder
+     * @param _rfqId The RFQ ID
+     * @param _supplierId Bidding supplier; must be approved and in the RFQ's category
+     * @param _encryptedBid Quoted price, encrypted by the client
+     * @param _inputProof Proof of correct encryption
+     *
+     * ## Pattern: Encrypted Argmin
+     * FHE.lt compares the new bid with the running minimum. The resulting
+     * ebool drives two FHE.select calls, updating the minimum and the
+     * winner index together without branching on encrypted data. Ties keep
+     * the earlier bid.
+     */
+    function submitBid(
+        uint256 _rfqId,
+        uint256 _supplierId,
+        externalEuint64 _encryptedBid,
+        bytes calldata _inputProof
+    ) external {
+        RFQ storage rfq = rfqs[_rfqId];
+        require(rfq.status == RFQStatus.Open, "RFQ is not open");
+        require(block.timestamp <= rfq.deadline, "Bidding deadline passed");
+        require(!hasBid[_rfqId][_supplierId], "Supplier already bid");
+        _requireEligibleBidder(rfq, _supplierId);
+
+        euint64 bid = FHE.fromExternal(_encryptedBid, _inputProof);
+        FHE.allowThis(bid);
+        FHE.allow(bid, msg.sender);
+
+        uint256 index = bidSupplierIds[_rfqId].length;
+        if (index == 0) {
+            rfq.lowestBid = bid;
+            rfq.winningIndex = FHE.asEuint32(0);
+        } else {
+            ebool isLower = FHE.lt(bid, rfq.lowestBid);
+            rfq.lowestBid = FHE.select(isLower, bid, rfq.lowestBid);
+            rfq.winningIndex = FHE.select(isLower, FHE.asEuint32(uint32(index)), rfq.winningIndex);
+        }
+        FHE.allowThis(rfq.lowestBid);
+        FHE.allowThis(rfq.winningIndex);
+
+        bids[_rfqId][_supplierId] = bid;
+        hasBid[_rfqId][_supplierId] = true;
+        bidSupplierIds[_rfqId].push(_supplierId);
+
+        emit BidSubmitted(_rfqId, _supplierId, msg.sender);
+    }
+
+    /**
+     * @dev Close bidding and request decryption of the winning price and index (buyer only)
+     * @param _rfqId The RFQ ID
+     */
+    function closeRFQ(uint256 _rfqId) external {
+        RFQ storage rfq = rfqs[_rfqId];
+        require(rfq.status == RFQStatus.Open, "RFQ is not open");
+        require(rfq.buyer == msg.sender, "Only buyer can close");
+        require(block.timestamp > rfq.deadline, "Bidding still open");
+        require(bidSupplierIds[_rfqId].length > 0, "No bids submitted");
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(rfq.lowestBid);
+        cts[1] = FHE.toBytes32(rfq.winningIndex);
+        uint256 requestId = FHE.requestDecryption(cts, this.processAward.selector);
+
+        awardRequests[requestId] = _rfqId;
+        rfq.status = RFQStatus.Closing;
+
+        emit RFQClosed(_rfqId, requestId, bidSupplierIds[_rfqId].length);
+    }
+
+    /**
+     * @dev Decryption callback revealing the winning price and supplier
+     * @param requestId ID returned by FHE.requestDecryption
+     * @param winningPrice The decrypted lowest bid
+     * @param winningIndex The decrypted index of the lowest bid
+     * @param signatures KMS signatures over the decrypted result
+     */
+    function processAward(
+        uint256 requestId,
+        uint64 winningPrice,
+        uint32 winningIndex,
+        bytes[] memory signatures
+    ) external {
+        uint256 rfqId = awardRequests[requestId];
+        require(rfqId != 0, "Unknown award request");
+
+        RFQ storage rfq = rfqs[rfqId];
+        require(rfq.status == RFQStatus.Closing, "RFQ is not closing");
+
+        FHE.checkSignatures(requestId, signatures);
+
+        rfq.winningPrice = winningPrice;
+        rfq.winningSupplierId = bidSupplierIds[rfqId][winningIndex];
+        rfq.status = RFQStatus.Awarded;
+
+        emit RFQAwarded(rfqId, rfq.winningSupplierId, winningPrice);
+    }
+
+    /**
+     * @dev Get public RFQ details
+     * @param _rfqId The RFQ ID
+     * Note: winningSupplierId and winningPrice are zero until the RFQ is awarded.
+     */
+    function getRFQ(uint256 _rfqId)
+        external
+        view
+        returns (
+            uint256 orgId,
+            address buyer,
+            string memory category,
+            uint64 deadline,
+            RFQStatus status,
+            uint256 bidCount,
+            uint256 winningSupplierId,
+            uint64 winningPrice
+        )
+    {
+        RFQ storage rfq = rfqs[_rfqId];
+        require(rfq.status != RFQStatus.None, "RFQ does not exist");
+
+        orgId = rfq.orgId;
+        buyer = rfq.buyer;
+        category = rfq.category;
+        deadline = rfq.deadline;
+        status = rfq.status;
+        bidCount = bidSupplierIds[_rfqId].length;
+        winningSupplierId = rfq.winningSupplierId;
+        winningPrice = rfq.winningPrice;
+    }
+
+    /**
+     * @dev Get the encrypted bid a supplier submitted (only the bidder can decrypt)
+     * @param _rfqId The RFQ ID
+     * @param _supplierId The bidding supplier ID
+     */
+    function getBid(uint256 _rfqId, uint256 _supplierId) external view returns (euint64) {
+        require(hasBid[_rfqId][_supplierId], "No bid submitted");
+        return bids[_rfqId][_supplierId];
+    }
+
+    /**
+     * @dev Revert unless msg.sender owns an approved supplier in the RFQ's organization and category
+     */
+    function _requireEligibleBidder(RFQ storage _rfq, uint256 _supplierId) internal view {
+        require(supplierManagement.supplierExists(_supplierId), "Supplier not registered");
+        // Supplier IDs carry their organization in the high 128 bits
+        require(_supplierId >> 128 == _rfq.orgId, "Supplier not in RFQ organization");
+
+        (, string memory category, , , , , SupplierManagementBase.SupplierState state) = supplierManagement
+            .getSupplier(_supplierId);
+
+        require(state == SupplierManagementBase.SupplierState.Approved, "Supplier not approved");
+        require(keccak256(bytes(category)) == keccak256(bytes(_rfq.category)), "Supplier not in RFQ category");
+        require(supplierBidders[_supplierId] == msg.sender, "Only supplier's bidder can bid");
+    }
+}
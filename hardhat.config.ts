@@ -1,6 +1,7 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@fhevm/hardhat-plugin";
+import "./tasks/suppliers";
 
 const config: HardhatUserConfig = {
   solidity: {
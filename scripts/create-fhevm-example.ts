@@ -23,6 +23,7 @@ const EXAMPLES_MAP: Record<
     description: string;
     category: string;
     contractFile: string;
+    supportingContracts?: string[];
     testFile: string;
     complexity: string;
     keywords: string[];
@@ -39,6 +40,7 @@ const EXAMPLES_MAP: Record<
       "Privacy-preserving supplier management with encrypted ratings and comparisons",
     category: "enterprise",
     contractFile: "SupplierManagement.sol",
+    supportingContracts: ["SupplierManagementBase.sol", "SupplierManagementExtension.sol"],
     testFile: "SupplierManagement.ts",
     complexity: "advanced",
     keywords: ["access-control", "privacy", "enterprise", "supplier-management"],
@@ -92,6 +94,7 @@ interface ExampleConfig {
   description: string;
   category: string;
   contractFile: string;
+  supportingContracts?: string[]; // Other contracts the main contract imports or deploys with
   testFile: string;
   complexity: string;
   keywords: string[];
@@ -136,6 +139,10 @@ async function createExample(exampleName: string, outputPath: string): Promise<v
       fs.copyFileSync(contractSrc, contractDest);
       console.log(`✅ Copied contract: ${config.contractFile}`);
     }
+    for (const file of config.supportingContracts ?? []) {
+      fs.copyFileSync(path.join(__dirname, "../contracts", file), path.join(outputPath, "contracts", file));
+      console.log(`✅ Copied contract: ${file}`);
+    }
 
     // 4. Copy test file
     const testSrc = path.join(__dirname, "../test", config.testFile);
@@ -1,29 +1,51 @@
-import { ethers } from "hardhat";
+import hre from "hardhat";
+import { DeploymentManager, DeploymentResult } from "../src/deployments";
+
+function report(name: string, { contract, deployment, reused }: DeploymentResult) {
+  if (reused) {
+    console.log(`♻️  ${name} unchanged, reusing:`, contract.address);
+    return;
+  }
+  console.log(`${name} deployed to:`, contract.address);
+  console.log("Transaction hash:", deployment.txHash);
+}
 
 async function main() {
   console.log("Deploying SupplierManagement contract...");
 
-  // Get the ContractFactory and Signers here.
-  const [deployer] = await ethers.getSigners();
+  // Get the Signers and the network's deployment record here.
+  const [deployer] = await hre.ethers.getSigners();
   console.log("Deploying contracts with the account:", deployer.address);
   console.log("Account balance:", (await deployer.getBalance()).toString());
 
-  // Deploy the contract
-  const SupplierManagement = await ethers.getContractFactory("SupplierManagement");
-  const supplierManagement = await SupplierManagement.deploy();
+  // Contracts whose bytecode and constructor arguments match the record are not redeployed
+  const manager = await DeploymentManager.load(hre);
 
-  await supplierManagement.deployed();
+  // Deploy the extension first; SupplierManagement forwards unknown calls to it
+  const extension = await manager.deploy("SupplierManagementExtension");
+  report("SupplierManagementExtension", extension);
 
-  console.log("SupplierManagement contract deployed to:", supplierManagement.address);
-  console.log("Transaction hash:", supplierManagement.deployTransaction.hash);
+  // Deploy the contract
+  const supplierManagement = await manager.deploy("SupplierManagement", [extension.contract.address]);
+  report("SupplierManagement contract", supplierManagement);
 
   // Verify the deployment
   console.log("Verifying deployment...");
-  const supplierCount = await supplierManagement.getSupplierCount();
-  console.log("Initial supplier count:", supplierCount.toString());
+  // Organization 0 is created at deployment with the deployer as its admin
+  const supplierCount = await supplierManagement.contract.getSupplierCount(0);
+  console.log("Supplier count (default organization):", supplierCount.toString());
+
+  // Deploy the RFQ module against the SupplierManagement instance
+  console.log("\nDeploying SupplierRFQ contract...");
+  report("SupplierRFQ contract", await manager.deploy("SupplierRFQ", [supplierManagement.contract.address]));
+
+  // Deploy purchase orders against the same SupplierManagement instance
+  console.log("\nDeploying PurchaseOrders contract...");
+  report("PurchaseOrders contract", await manager.deploy("PurchaseOrders", [supplierManagement.contract.address]));
 
   console.log("\n🎉 Deployment completed successfully!");
-  console.log("📝 Update your frontend contract address to:", supplierManagement.address);
+  console.log("💾 Deployment record:", manager.file);
+  console.log("📝 The frontend, tasks and scripts read the SupplierManagement address from this record");
 }
 
 // We recommend this pattern to be able to use async/await everywhere
@@ -0,0 +1,107 @@
+#!/usr/bin/env ts-node
+/**
+ * Batch Supplier Import
+ * Onboards suppliers from a CSV or JSON file with addSuppliersBatch
+ *
+ * Usage:
+ *   HARDHAT_NETWORK=<network> ts-node scripts/import-suppliers.ts <file> [--address <SupplierManagement>]
+ *     [--org <orgId>] [--checkpoint <file>] [--max-gas <gas>]
+ *
+ * Examples:
+ *   HARDHAT_NETWORK=sepolia ts-node scripts/import-suppliers.ts vendors.csv
+ *   HARDHAT_NETWORK=sepolia ts-node scripts/import-suppliers.ts vendors.json --address 0x... --org 2
+ *
+ * The address defaults to the SupplierManagement entry in deployments/<network>.json.
+ * Every row is validated before anything is sent. Progress is saved to the
+ * checkpoint file (default: <file>.checkpoint.json) after each transaction;
+ * rerunning the same command after a failure continues where it stopped.
+ */
+
+import { config, ethers, fhevm, network } from "hardhat";
+import { resolveAddress } from "../src/deployments";
+import { DEFAULT_MAX_GAS_PER_TX, SupplierRowError, importSuppliers, readSupplierFile } from "../src/import";
+
+const USAGE =
+  "Usage: HARDHAT_NETWORK=<network> ts-node scripts/import-suppliers.ts <file> [--address <SupplierManagement>] " +
+  "[--org <orgId>] [--checkpoint <file>] [--max-gas <gas>]";
+
+function parseArgs(args: string[]) {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      if (i + 1 >= args.length) {
+        throw new Error(`Missing value for ${args[i]}`);
+      }
+      flags[args[i].slice(2)] = args[++i];
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  const file = positional[0];
+  const address = flags.address;
+  if (!file) {
+    return undefined;
+  }
+  if (address !== undefined && !ethers.utils.isAddress(address)) {
+    throw new Error(`Invalid contract address: ${address}`);
+  }
+
+  return {
+    file,
+    address,
+    orgId: flags.org ?? "0",
+    checkpointFile: flags.checkpoint ?? `${file}.checkpoint.json`,
+    maxGasPerTx: flags["max-gas"] ?? DEFAULT_MAX_GAS_PER_TX,
+  };
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  console.log(`\n📄 Reading ${options.file}...`);
+  const rows = await readSupplierFile(options.file);
+  console.log(`✅ ${rows.length} valid supplier rows`);
+
+  await fhevm.initializeCLIApi();
+  const [signer] = await ethers.getSigners();
+  const address = options.address ?? (await resolveAddress(config.paths.root, network.name));
+  // Batch onboarding is served by the extension through the SupplierManagement address
+  const contract = await ethers.getContractAt("SupplierManagementExtension", address, signer);
+
+  console.log(`🔐 Importing into organization ${options.orgId} at ${address} as ${signer.address}`);
+  console.log(`💾 Checkpoint: ${options.checkpointFile}\n`);
+
+  const result = await importSuppliers(contract, rows, {
+    orgId: options.orgId,
+    checkpointFile: options.checkpointFile,
+    maxGasPerTx: options.maxGasPerTx,
+    createEncryptedInput: (contractAddress, userAddress) => fhevm.createEncryptedInput(contractAddress, userAddress),
+    onBatch: (batch) =>
+      console.log(
+        `  Lines ${batch.fromLine}-${batch.toLine}: ${batch.txHash} (${batch.gasUsed} gas) ` +
+          `[${batch.imported}/${batch.total}]`
+      ),
+  });
+
+  if (result.resumedFrom > 0) {
+    console.log(`\n↪️  Resumed after ${result.resumedFrom} rows imported by an earlier run`);
+  }
+  console.log(`\n🎉 Imported ${result.supplierIds.length} suppliers in ${result.transactions.length} transactions`);
+}
+
+main().catch((error) => {
+  if (error instanceof SupplierRowError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    console.error("❌ Import failed:", error);
+    console.error("   Rerun the same command to resume from the checkpoint.");
+  }
+  process.exit(1);
+});
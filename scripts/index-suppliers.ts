@@ -0,0 +1,135 @@
+#!/usr/bin/env ts-node
+/**
+ * Supplier Event Indexer
+ * Replays supplier events into a local SQLite database and keeps it current
+ *
+ * Usage:
+ *   HARDHAT_NETWORK=<network> ts-node scripts/index-suppliers.ts [--db <file>] [--address <SupplierManagement>]
+ *     [--from-block <block>] [--confirmations <blocks>] [--interval <ms>] [--port <port>] [--once]
+ *
+ * Examples:
+ *   HARDHAT_NETWORK=localhost ts-node scripts/index-suppliers.ts --once
+ *   HARDHAT_NETWORK=sepolia ts-node scripts/index-suppliers.ts --db sepolia.sqlite --interval 12000
+ *   HARDHAT_NETWORK=sepolia ts-node scripts/index-suppliers.ts --port 3001
+ *
+ * The address and start block default to the SupplierManagement entry in
+ * deployments/<network>.json. Progress is checkpointed in the database, so
+ * restarting continues from the last indexed block. With --port, the
+ * read-only supplier API (src/api/openapi.json) is served over the index
+ * while it syncs.
+ */
+
+import { config, ethers, network } from "hardhat";
+import { createApiServer } from "../src/api";
+import { readDeployment } from "../src/deployments";
+import { DEFAULT_CONFIRMATIONS, IndexerStore, ReorgTooDeepError, SupplierIndexer, SyncResult } from "../src/indexer";
+
+const USAGE =
+  "Usage: HARDHAT_NETWORK=<network> ts-node scripts/index-suppliers.ts [--db <file>] " +
+  "[--address <SupplierManagement>] [--from-block <block>] [--confirmations <blocks>] [--interval <ms>] " +
+  "[--port <port>] [--once]";
+
+const DEFAULT_INTERVAL_MS = 4000;
+
+function parseArgs(args: string[]) {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith("--")) {
+      return undefined;
+    }
+    if (args[i] === "--once") {
+      flags.once = "true";
+      continue;
+    }
+    if (i + 1 >= args.length) {
+      throw new Error(`Missing value for ${args[i]}`);
+    }
+    flags[args[i].slice(2)] = args[++i];
+  }
+
+  if (flags.address !== undefined && !ethers.utils.isAddress(flags.address)) {
+    throw new Error(`Invalid contract address: ${flags.address}`);
+  }
+  return {
+    db: flags.db ?? `suppliers.${network.name}.sqlite`,
+    address: flags.address,
+    fromBlock: flags["from-block"] === undefined ? undefined : Number(flags["from-block"]),
+    confirmations: Number(flags.confirmations ?? DEFAULT_CONFIRMATIONS),
+    intervalMs: Number(flags.interval ?? DEFAULT_INTERVAL_MS),
+    port: flags.port === undefined ? undefined : Number(flags.port),
+    once: flags.once === "true",
+  };
+}
+
+// Explicit flags win; otherwise use the network's deployment record
+async function resolveTarget(address?: string, fromBlock?: number): Promise<{ address: string; startBlock: number }> {
+  if (address !== undefined && fromBlock !== undefined) {
+    return { address, startBlock: fromBlock };
+  }
+  const deployed = (await readDeployment(config.paths.root, network.name)).contracts.SupplierManagement;
+  if (!deployed) {
+    throw new Error(`deployments/${network.name}.json has no SupplierManagement; pass --address and --from-block`);
+  }
+  return { address: address ?? deployed.address, startBlock: fromBlock ?? deployed.blockNumber };
+}
+
+function report(result: SyncResult): void {
+  if (result.rolledBackTo !== undefined) {
+    console.log(`↩️  Reorganization detected; rolled back to block ${result.rolledBackTo}`);
+  }
+  if (result.events > 0 || result.rolledBackTo !== undefined) {
+    console.log(`  Indexed ${result.events} events through block ${result.checkpoint}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  const { address, startBlock } = await resolveTarget(options.address, options.fromBlock);
+  const { chainId } = await ethers.provider.getNetwork();
+  const store = new IndexerStore(options.db, { chainId, contract: address });
+  const indexer = new SupplierIndexer(address, ethers.provider, store, {
+    startBlock,
+    confirmations: options.confirmations,
+  });
+
+  console.log(`\n🔎 Indexing ${address} on ${network.name} from block ${startBlock}`);
+  console.log(`💾 Database: ${options.db}\n`);
+
+  if (options.once) {
+    const result = await indexer.sync();
+    report(result);
+    console.log(`\n🎉 Index is current through block ${result.checkpoint}`);
+    store.close();
+    return;
+  }
+
+  indexer.start(options.intervalMs, report, (error) => {
+    if (error instanceof ReorgTooDeepError) {
+      console.error(`❌ ${error.message}`);
+      indexer.stop();
+      store.close();
+      process.exit(1);
+    }
+    console.error("⚠️  Sync failed; retrying:", error);
+  });
+
+  const server = options.port === undefined ? undefined : createApiServer(store);
+  server?.listen(options.port, () => console.log(`🌐 Supplier API listening on http://localhost:${options.port}\n`));
+
+  process.on("SIGINT", () => {
+    indexer.stop();
+    server?.close();
+    store.close();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error("❌ Indexer failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,2 @@
+export type { ApiErrorBody, ApiOptions } from "./server";
+export { ApiError, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, createApiServer } from "./server";
@@ -0,0 +1,223 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import * as http from "http";
+import * as path from "path";
+import { ethers } from "ethers";
+import type { Page } from "../client";
+import { DecryptionRequestStatus, INDEXED_EVENTS, IndexerStore, ListResult, PageQuery } from "../indexer";
+
+/**
+ * Read-only HTTP API over an IndexerStore
+ *
+ * Serves only what is already public on-chain: supplier metadata, event
+ * history and decryption requests. Encrypted fields appear as their opaque
+ * handles, which are useless without ACL access and user decryption.
+ * Every response carries an ETag over its body, so pollers can revalidate
+ * with If-None-Match and get 304 Not Modified until new events are indexed.
+ */
+
+export interface ApiOptions {
+  /** Page size when the request has no limit; default 50 */
+  defaultPageSize?: number;
+  /** Largest accepted limit; default 200 */
+  maxPageSize?: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const REQUEST_STATUSES: DecryptionRequestStatus[] = ["Pending", "Fulfilled", "Cancelled", "Expired"];
+
+/**
+ * An error with the HTTP status it should be reported as
+ */
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Body of every error response
+ */
+export interface ApiErrorBody {
+  error: string;
+}
+
+type Handler = (params: string[], query: URLSearchParams) => unknown;
+
+/**
+ * Create the API server; call listen() on the result to start serving
+ */
+export function createApiServer(store: IndexerStore, options: ApiOptions = {}): http.Server {
+  const defaultPageSize = options.defaultPageSize ?? DEFAULT_PAGE_SIZE;
+  const maxPageSize = options.maxPageSize ?? MAX_PAGE_SIZE;
+  const openApi = JSON.parse(readFileSync(path.join(__dirname, "openapi.json"), "utf8"));
+
+  function paged<T>(query: URLSearchParams, list: (page: PageQuery) => ListResult<T>): Page<T> {
+    const offset = intParam(query, "offset") ?? 0;
+    const limit = intParam(query, "limit") ?? defaultPageSize;
+    if (limit < 1 || limit > maxPageSize) {
+      throw new ApiError(400, `limit must be between 1 and ${maxPageSize}`);
+    }
+    const { items, total } = list({ offset, limit });
+    const end = offset + items.length;
+    return { items, total, offset, limit, nextOffset: end < total ? end : undefined };
+  }
+
+  function requireSupplier(id: string) {
+    const supplier = store.getSupplier(id);
+    if (!supplier) {
+      throw new ApiError(404, `Supplier ${id} is not indexed`);
+    }
+    return supplier;
+  }
+
+  const routes: [RegExp, Handler][] = [
+    [/^\/health$/, () => ({ checkpoint: store.checkpoint()?.number ?? null })],
+    [/^\/openapi\.json$/, () => openApi],
+    [
+      /^\/suppliers$/,
+      (_, query) =>
+        paged(query, (page) =>
+          store.listSuppliers({
+            ...page,
+            orgId: uintParam(query, "orgId"),
+            category: query.get("category") ?? undefined,
+            owner: addressParam(query, "owner"),
+          })
+        ),
+    ],
+    [/^\/suppliers\/(\d+)$/, ([id]) => requireSupplier(canonicalUint(id))],
+    [
+      /^\/suppliers\/(\d+)\/events$/,
+      ([id], query) => {
+        const supplier = requireSupplier(canonicalUint(id));
+        return paged(query, (page) => store.listEvents({ ...page, supplierId: supplier.id }));
+      },
+    ],
+    [/^\/categories$/, (_, query) => ({ items: store.listCategories(uintParam(query, "orgId")) })],
+    [/^\/owners$/, (_, query) => ({ items: store.listOwners(uintParam(query, "orgId")) })],
+    [
+      /^\/events$/,
+      (_, query) =>
+        paged(query, (page) =>
+          store.listEvents({
+            ...page,
+            supplierId: uintParam(query, "supplierId"),
+            name: enumParam(query, "name", INDEXED_EVENTS),
+            fromBlock: intParam(query, "fromBlock"),
+            toBlock: intParam(query, "toBlock"),
+          })
+        ),
+    ],
+    [
+      /^\/decryption-requests$/,
+      (_, query) =>
+        paged(query, (page) =>
+          store.listDecryptionRequests({
+            ...page,
+            status: enumParam(query, "status", REQUEST_STATUSES),
+            supplierId: uintParam(query, "supplierId"),
+            requester: addressParam(query, "requester"),
+          })
+        ),
+    ],
+  ];
+
+  return http.createServer((request, response) => {
+    try {
+      const url = parseUrl(request.url ?? "/");
+      if (request.method !== "GET") {
+        response.setHeader("Allow", "GET");
+        throw new ApiError(405, `Method ${request.method} not allowed`);
+      }
+      for (const [pattern, handler] of routes) {
+        const match = pattern.exec(url.pathname);
+        if (match) {
+          sendJson(request, response, 200, handler(match.slice(1), url.searchParams));
+          return;
+        }
+      }
+      throw new ApiError(404, `No route for ${url.pathname}`);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        sendJson(request, response, error.status, { error: error.message });
+      } else {
+        sendJson(request, response, 500, { error: "Internal server error" });
+      }
+    }
+  });
+}
+
+function sendJson(request: http.IncomingMessage, response: http.ServerResponse, status: number, value: unknown) {
+  const body = JSON.stringify(value);
+  response.setHeader("Content-Type", "application/json; charset=utf-8");
+  if (status !== 200) {
+    response.writeHead(status).end(body);
+    return;
+  }
+
+  const etag = `"${createHash("sha256").update(body).digest("hex").slice(0, 32)}"`;
+  response.setHeader("ETag", etag);
+  // Clients may cache, but must revalidate: a new block can change any response
+  response.setHeader("Cache-Control", "no-cache");
+
+  const ifNoneMatch = request.headers["if-none-match"];
+  if (ifNoneMatch?.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag)) {
+    response.writeHead(304).end();
+    return;
+  }
+  response.writeHead(200).end(body);
+}
+
+// Request targets such as "//a:b" are not valid relative URLs
+function parseUrl(target: string): URL {
+  try {
+    return new URL(target, "http://localhost");
+  } catch {
+    throw new ApiError(400, "Invalid request target");
+  }
+}
+
+function intParam(query: URLSearchParams, name: string): number | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(Number(value))) {
+    throw new ApiError(400, `${name} must be a non-negative integer`);
+  }
+  return Number(value);
+}
+
+// uint256 values such as supplier IDs exceed Number, so they stay decimal strings
+function uintParam(query: URLSearchParams, name: string): string | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new ApiError(400, `${name} must be a non-negative integer`);
+  }
+  return canonicalUint(value);
+}
+
+function canonicalUint(value: string): string {
+  return BigInt(value).toString();
+}
+
+function addressParam(query: URLSearchParams, name: string): string | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  if (!ethers.utils.isAddress(value)) {
+    throw new ApiError(400, `${name} must be an address`);
+  }
+  return value;
+}
+
+function enumParam<T extends string>(query: URLSearchParams, name: string, allowed: T[]): T | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new ApiError(400, `${name} must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
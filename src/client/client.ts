@@ -0,0 +1,325 @@
+import { BigNumber, BigNumberish, ContractReceipt, ethers } from "ethers";
+import {
+  SupplierManagement,
+  SupplierManagementExtension,
+  SupplierManagementExtension__factory,
+  SupplierManagement__factory,
+} from "../../typechain-types";
+import { DeploymentNotFoundError, DeploymentRecord } from "../deployments";
+import { NO_CONTACT } from "../import";
+import { FhevmInstanceLike, UserDecryptor } from "./decryption";
+import {
+  NewSupplier,
+  OrgFilter,
+  Page,
+  PageOptions,
+  SupplierAddedEvent,
+  SupplierAddedResult,
+  SupplierFilter,
+  SupplierInfo,
+  SupplierPreferenceUpdatedEvent,
+  SupplierRatingUpdatedEvent,
+  SupplierState,
+  SupplierStateChangedEvent,
+  TransactionResult,
+  Unsubscribe,
+} from "./types";
+
+const DEFAULT_PAGE_SIZE = 20;
+// Supplier IDs carry their organization in the high 128 bits
+const ORG_SHIFT = 128;
+
+/**
+ * Supplier ID of an organization's Nth supplier, as computed by the contract's supplierIdOf
+ */
+export function toSupplierId(orgId: BigNumberish, number: BigNumberish): BigNumber {
+  return BigNumber.from(orgId).shl(ORG_SHIFT).or(number);
+}
+
+/**
+ * Typed client for SupplierManagement and its extension
+ *
+ * Ratings and preferences are encrypted client-side before they are sent,
+ * and handles are decrypted with EIP-712 user decryption, so plaintext
+ * values never leave the client. Results come back as plain objects with
+ * named fields rather than ethers result tuples.
+ */
+export class SupplierClient {
+  readonly address: string;
+  private readonly decryptor: UserDecryptor;
+
+  /**
+   * @param contract SupplierManagement connected with the signer that sends transactions and decrypts
+   * @param extension SupplierManagementExtension attached at the same address
+   * @param fhevm FHEVM instance used for encryption and user decryption
+   * @param decryptionDurationDays Validity of each signed decryption session
+   */
+  constructor(
+    readonly contract: SupplierManagement,
+    readonly extension: SupplierManagementExtension,
+    private readonly fhevm: FhevmInstanceLike,
+    decryptionDurationDays = 1
+  ) {
+    this.address = contract.address;
+    this.decryptor = new UserDecryptor(fhevm, contract.address, contract.signer, decryptionDurationDays);
+  }
+
+  /**
+   * Connect to a SupplierManagement deployment
+   */
+  static connect(address: string, signer: ethers.Signer, fhevm: FhevmInstanceLike): SupplierClient {
+    return new SupplierClient(
+      SupplierManagement__factory.connect(address, signer),
+      SupplierManagementExtension__factory.connect(address, signer),
+      fhevm
+    );
+  }
+
+  /**
+   * Connect to the SupplierManagement entry of a deployment record
+   * @throws DeploymentNotFoundError if the record has no SupplierManagement
+   */
+  static fromDeployment(record: DeploymentRecord, signer: ethers.Signer, fhevm: FhevmInstanceLike): SupplierClient {
+    const deployed = record.contracts.SupplierManagement;
+    if (!deployed) {
+      throw new DeploymentNotFoundError(record.network, "SupplierManagement");
+    }
+    return SupplierClient.connect(deployed.address, signer, fhevm);
+  }
+
+  /**
+   * Add a supplier with its rating and preference encrypted client-side
+   */
+  async addSupplier(orgId: BigNumberish, supplier: NewSupplier): Promise<SupplierAddedResult> {
+    requireValidRating(supplier.rating);
+    const input = await this.encryptInput();
+    input.add8(supplier.rating);
+    input.addBool(supplier.isPreferred);
+    const { handles, inputProof } = await input.encrypt();
+
+    const tx = await this.contract["addSupplier(uint256,string,string,(bytes32,string),bytes32,bytes32,bytes)"](
+      orgId,
+      supplier.name,
+      supplier.category,
+      supplier.contact ?? NO_CONTACT,
+      handles[0],
+      handles[1],
+      inputProof
+    );
+    const receipt = await tx.wait();
+    const [supplierId] = this.addedSupplierIds(receipt);
+    return { ...transactionResult(receipt), supplierId };
+  }
+
+  /**
+   * Add up to MAX_BATCH_SIZE suppliers in one transaction with a single input proof
+   * @returns IDs of the new suppliers, in input order
+   */
+  async addSuppliers(orgId: BigNumberish, suppliers: NewSupplier[]): Promise<BigNumber[]> {
+    suppliers.forEach((supplier) => requireValidRating(supplier.rating));
+    const input = await this.encryptInput();
+    for (const supplier of suppliers) {
+      input.add8(supplier.rating);
+      input.addBool(supplier.isPreferred);
+    }
+    const { handles, inputProof } = await input.encrypt();
+
+    const rows = suppliers.map((supplier, i) => ({
+      name: supplier.name,
+      category: supplier.category,
+      contact: supplier.contact ?? NO_CONTACT,
+      encryptedRating: handles[2 * i],
+      encryptedPreferred: handles[2 * i + 1],
+    }));
+    const receipt = await (await this.extension.addSuppliersBatch(orgId, rows, inputProof)).wait();
+    return this.addedSupplierIds(receipt);
+  }
+
+  /**
+   * Replace a supplier's rating (owner only), optionally recording the hash of an off-chain justification
+   */
+  async updateRating(
+    supplierId: BigNumberish,
+    rating: number,
+    reasonHash: string = ethers.constants.HashZero
+  ): Promise<TransactionResult> {
+    requireValidRating(rating);
+    const input = await this.encryptInput();
+    input.add8(rating);
+    const { handles, inputProof } = await input.encrypt();
+
+    const tx = await this.contract["updateSupplierRating(uint256,bytes32,bytes,bytes32)"](
+      supplierId,
+      handles[0],
+      inputProof,
+      reasonHash
+    );
+    return transactionResult(await tx.wait());
+  }
+
+  /**
+   * Replace a supplier's preferred flag (owner only)
+   */
+  async updatePreference(supplierId: BigNumberish, isPreferred: boolean): Promise<TransactionResult> {
+    const input = await this.encryptInput();
+    input.addBool(isPreferred);
+    const { handles, inputProof } = await input.encrypt();
+
+    const tx = await this.contract.updateSupplierPreference(supplierId, handles[0], inputProof);
+    return transactionResult(await tx.wait());
+  }
+
+  /**
+   * Compare two suppliers' ratings under encryption and decrypt only the outcome
+   * @returns true if the first supplier is rated higher than or equal to the second
+   */
+  async compareRatings(supplierId1: BigNumberish, supplierId2: BigNumberish): Promise<boolean> {
+    await (await this.contract.compareSupplierRatings(supplierId1, supplierId2)).wait();
+    const handle = await this.contract.getComparisonResult(supplierId1, supplierId2);
+    return Boolean(await this.decryptHandle(handle));
+  }
+
+  /**
+   * Decrypt a supplier's rating (owner and the organization's decryptor roles)
+   */
+  async decryptRating(supplierId: BigNumberish): Promise<number> {
+    const handle = await this.contract.getEncryptedRating(supplierId);
+    return Number(await this.decryptHandle(handle));
+  }
+
+  /**
+   * Decrypt a supplier's preferred flag (owner and the organization's decryptor roles)
+   */
+  async decryptPreferred(supplierId: BigNumberish): Promise<boolean> {
+    const handle = await this.contract.isSupplierPreferred(supplierId);
+    return Boolean(await this.decryptHandle(handle));
+  }
+
+  /**
+   * Get a supplier's public details
+   */
+  async getSupplier(supplierId: BigNumberish): Promise<SupplierInfo> {
+    const id = BigNumber.from(supplierId);
+    const supplier = await this.contract.getSupplier(id);
+    return {
+      id,
+      orgId: id.shr(ORG_SHIFT),
+      number: id.mask(ORG_SHIFT),
+      name: supplier.name,
+      category: supplier.category,
+      contact: { contentHash: supplier.contact.contentHash, pointer: supplier.contact.pointer },
+      owner: supplier.owner,
+      state: supplier.state as SupplierState,
+      isPreferredHandle: supplier.isPreferred,
+    };
+  }
+
+  /**
+   * List an organization's suppliers in registration order
+   */
+  async listSuppliers(orgId: BigNumberish, options: PageOptions = {}): Promise<Page<SupplierInfo>> {
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+      throw new RangeError("offset must be a non-negative integer and limit a positive integer");
+    }
+
+    const total = (await this.contract.getSupplierCount(orgId)).toNumber();
+    const end = Math.min(offset + limit, total);
+    const numbers = Array.from({ length: Math.max(end - offset, 0) }, (_, i) => offset + i + 1);
+    const items = await Promise.all(numbers.map((number) => this.getSupplier(toSupplierId(orgId, number))));
+
+    return { items, total, offset, limit, nextOffset: end < total ? end : undefined };
+  }
+
+  /**
+   * Subscribe to new suppliers, optionally in one organization only
+   */
+  onSupplierAdded(listener: (event: SupplierAddedEvent) => void, filter: OrgFilter = {}): Unsubscribe {
+    return this.subscribe(this.contract.filters.SupplierAdded(filter.orgId), listener, (args) => ({
+      orgId: args.orgId,
+      supplierId: args.supplierId,
+      name: args.name,
+      category: args.category,
+      owner: args.owner,
+    }));
+  }
+
+  /**
+   * Subscribe to rating updates, optionally for one supplier only
+   */
+  onRatingUpdated(listener: (event: SupplierRatingUpdatedEvent) => void, filter: SupplierFilter = {}): Unsubscribe {
+    return this.subscribe(this.contract.filters.SupplierRatingUpdated(filter.supplierId), listener, (args) => ({
+      supplierId: args.supplierId,
+      updater: args.updater,
+    }));
+  }
+
+  /**
+   * Subscribe to preference updates, optionally for one supplier only
+   */
+  onPreferenceUpdated(
+    listener: (event: SupplierPreferenceUpdatedEvent) => void,
+    filter: SupplierFilter = {}
+  ): Unsubscribe {
+    return this.subscribe(this.contract.filters.SupplierPreferenceUpdated(filter.supplierId), listener, (args) => ({
+      supplierId: args.supplierId,
+      updater: args.updater,
+      isPreferredHandle: args.isPreferred,
+    }));
+  }
+
+  /**
+   * Subscribe to lifecycle state changes, optionally for one supplier only
+   */
+  onStateChanged(listener: (event: SupplierStateChangedEvent) => void, filter: SupplierFilter = {}): Unsubscribe {
+    return this.subscribe(this.contract.filters.SupplierStateChanged(filter.supplierId), listener, (args) => ({
+      supplierId: args.supplierId,
+      fromState: args.fromState as SupplierState,
+      toState: args.toState as SupplierState,
+      reasonCode: args.reasonCode,
+      changedBy: args.changedBy,
+    }));
+  }
+
+  private async encryptInput() {
+    return this.fhevm.createEncryptedInput(this.address, await this.contract.signer.getAddress());
+  }
+
+  private async decryptHandle(handle: string) {
+    const results = await this.decryptor.decrypt([handle]);
+    return results[handle.toLowerCase()];
+  }
+
+  private addedSupplierIds(receipt: ContractReceipt): BigNumber[] {
+    return (receipt.events ?? [])
+      .filter((event) => event.event === "SupplierAdded")
+      .map((event) => event.args!.supplierId as BigNumber);
+  }
+
+  private subscribe<T>(
+    filter: ethers.EventFilter,
+    listener: (event: T & { blockNumber: number; txHash: string }) => void,
+    toEvent: (args: ethers.utils.Result) => T
+  ): Unsubscribe {
+    const handler = (...params: unknown[]) => {
+      // ethers passes the decoded arguments first and the full event last
+      const event = params[params.length - 1] as ethers.Event;
+      listener({ ...toEvent(event.args!), blockNumber: event.blockNumber, txHash: event.transactionHash });
+    };
+    this.contract.on(filter, handler);
+    return () => {
+      this.contract.off(filter, handler);
+    };
+  }
+}
+
+function requireValidRating(rating: number) {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 10) {
+    throw new RangeError("Rating must be between 1 and 10");
+  }
+}
+
+function transactionResult(receipt: ContractReceipt): TransactionResult {
+  return { txHash: receipt.transactionHash, blockNumber: receipt.blockNumber };
+}
@@ -0,0 +1,115 @@
+import { ethers } from "ethers";
+import { EncryptedInput } from "../import";
+
+/**
+ * The subset of an FHEVM instance the client needs
+ *
+ * Satisfied by the relayer SDK's FhevmInstance in browsers and scripts, and
+ * by the FHEVM hardhat plugin's `fhevm` object against the local mock.
+ */
+export interface FhevmInstanceLike {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInput;
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Eip712Request;
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<Record<string, bigint | boolean | string>>;
+}
+
+export interface Eip712Request {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+// Implemented by ethers v5 wallets and JSON-RPC signers, but not part of the Signer interface
+type TypedDataSigner = ethers.Signer & Pick<ethers.Wallet, "_signTypedData">;
+
+interface DecryptionSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+// Renew a session this long before it expires, so a request never races the expiry
+const SESSION_RENEWAL_MARGIN = 5 * 60;
+
+/**
+ * EIP-712 user decryption with a reusable session
+ *
+ * Decrypting needs a keypair and the user's signature authorizing it for the
+ * contract. Both are created on first use and reused until the signed
+ * validity window is about to end, so the user signs once per window rather
+ * than once per handle.
+ */
+export class UserDecryptor {
+  private session?: DecryptionSession;
+
+  constructor(
+    private readonly fhevm: FhevmInstanceLike,
+    private readonly contractAddress: string,
+    private readonly signer: ethers.Signer,
+    private readonly durationDays = 1
+  ) {}
+
+  /**
+   * Decrypt handles the signer has ACL access to
+   * @returns Decrypted values keyed by handle, in lowercase hex
+   */
+  async decrypt(handles: string[]): Promise<Record<string, bigint | boolean | string>> {
+    const uninitialized = handles.find((handle) => BigInt(handle) === 0n);
+    if (uninitialized !== undefined) {
+      throw new Error("Cannot decrypt an uninitialized handle");
+    }
+
+    const session = await this.currentSession();
+    const userAddress = await this.signer.getAddress();
+    const results = await this.fhevm.userDecrypt(
+      handles.map((handle) => ({ handle, contractAddress: this.contractAddress })),
+      session.privateKey,
+      session.publicKey,
+      session.signature.replace("0x", ""),
+      [this.contractAddress],
+      userAddress,
+      session.startTimestamp,
+      session.durationDays
+    );
+
+    return Object.fromEntries(Object.entries(results).map(([handle, value]) => [handle.toLowerCase(), value]));
+  }
+
+  private async currentSession(): Promise<DecryptionSession> {
+    const now = Math.floor(Date.now() / 1000);
+    if (this.session) {
+      const expiresAt = this.session.startTimestamp + this.session.durationDays * SECONDS_PER_DAY;
+      if (now < expiresAt - SESSION_RENEWAL_MARGIN) {
+        return this.session;
+      }
+    }
+
+    const { publicKey, privateKey } = this.fhevm.generateKeypair();
+    const request = this.fhevm.createEIP712(publicKey, [this.contractAddress], now, this.durationDays);
+    // Sign only the primary type: ethers derives the EIP712Domain type from the domain itself
+    const types = { [request.primaryType]: request.types[request.primaryType] };
+    const signature = await (this.signer as TypedDataSigner)._signTypedData(request.domain, types, request.message);
+
+    this.session = { publicKey, privateKey, signature, startTimestamp: now, durationDays: this.durationDays };
+    return this.session;
+  }
+}
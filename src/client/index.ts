@@ -0,0 +1,17 @@
+export { SupplierClient, toSupplierId } from "./client";
+export type { Eip712Request, FhevmInstanceLike } from "./decryption";
+export { UserDecryptor } from "./decryption";
+export type {
+  NewSupplier,
+  Page,
+  PageOptions,
+  SupplierAddedEvent,
+  SupplierAddedResult,
+  SupplierInfo,
+  SupplierPreferenceUpdatedEvent,
+  SupplierRatingUpdatedEvent,
+  SupplierStateChangedEvent,
+  TransactionResult,
+  Unsubscribe,
+} from "./types";
+export { SupplierState } from "./types";
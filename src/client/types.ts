@@ -0,0 +1,99 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { ContactCommitment } from "../contacts";
+
+/**
+ * Mirrors SupplierManagementBase.SupplierState
+ */
+export enum SupplierState {
+  Pending,
+  Approved,
+  Suspended,
+  Archived,
+}
+
+export interface SupplierInfo {
+  id: BigNumber;
+  orgId: BigNumber;
+  /** Position of the supplier within its organization, starting at 1 */
+  number: BigNumber;
+  name: string;
+  category: string;
+  contact: ContactCommitment;
+  owner: string;
+  state: SupplierState;
+  /** Encrypted preferred flag; decrypt with SupplierClient.decryptPreferred */
+  isPreferredHandle: string;
+}
+
+export interface NewSupplier {
+  name: string;
+  category: string;
+  /** Plaintext 1-10 rating; encrypted client-side before it is sent */
+  rating: number;
+  /** Plaintext preferred flag; encrypted client-side before it is sent */
+  isPreferred: boolean;
+  /** Defaults to no contact */
+  contact?: ContactCommitment;
+}
+
+export interface TransactionResult {
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface SupplierAddedResult extends TransactionResult {
+  supplierId: BigNumber;
+}
+
+export interface PageOptions {
+  /** Number of suppliers to skip, default 0 */
+  offset?: number;
+  /** Maximum number of suppliers to return, default 20 */
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+  /** Offset of the next page, or undefined on the last page */
+  nextOffset?: number;
+}
+
+interface EventMeta {
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface SupplierAddedEvent extends EventMeta {
+  orgId: BigNumber;
+  supplierId: BigNumber;
+  name: string;
+  category: string;
+  owner: string;
+}
+
+export interface SupplierRatingUpdatedEvent extends EventMeta {
+  supplierId: BigNumber;
+  updater: string;
+}
+
+export interface SupplierPreferenceUpdatedEvent extends EventMeta {
+  supplierId: BigNumber;
+  updater: string;
+  isPreferredHandle: string;
+}
+
+export interface SupplierStateChangedEvent extends EventMeta {
+  supplierId: BigNumber;
+  fromState: SupplierState;
+  toState: SupplierState;
+  reasonCode: string;
+  changedBy: string;
+}
+
+export type Unsubscribe = () => void;
+
+export type OrgFilter = { orgId?: BigNumberish };
+export type SupplierFilter = { supplierId?: BigNumberish };
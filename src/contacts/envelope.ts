@@ -0,0 +1,163 @@
+import { createCipheriv, createDecipheriv, createECDH, hkdfSync, randomBytes } from "crypto";
+import { ethers } from "ethers";
+
+/**
+ * Contact Envelope Encryption
+ *
+ * Contact details are encrypted once with a random AES-256-GCM content key.
+ * That key is then wrapped separately for every recipient (the supplier owner
+ * and each decryptor role holder) with ECIES over secp256k1: an ephemeral ECDH
+ * key agreement against the recipient's Ethereum public key, HKDF-SHA256, and
+ * AES-256-GCM. Any recipient can unwrap the content key with their account's
+ * private key; nobody else can read the blob.
+ */
+
+export interface ContactDetails {
+  email?: string;
+  phone?: string;
+  contactName?: string;
+  address?: string;
+}
+
+export interface ContactRecipient {
+  address: string;
+  /** Uncompressed secp256k1 public key (0x04...) of the recipient account */
+  publicKey: string;
+}
+
+interface WrappedContentKey {
+  address: string;
+  ephemeralPublicKey: string;
+  iv: string;
+  tag: string;
+  wrappedKey: string;
+}
+
+export interface ContactEnvelope {
+  version: number;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+  recipients: WrappedContentKey[];
+}
+
+export const ENVELOPE_VERSION = 1;
+
+const KEY_WRAP_INFO = "supplier-contact-key-wrap-v1";
+const PUBLIC_KEY_MESSAGE = "Share my public key to receive encrypted supplier contacts";
+
+/**
+ * Encrypt contact details for a set of recipients
+ * @returns The serialized envelope, ready for a ContactBlobStore
+ */
+export function encryptContact(contact: ContactDetails, recipients: ContactRecipient[]): Uint8Array {
+  if (recipients.length === 0) {
+    throw new Error("At least one recipient is required");
+  }
+
+  const contentKey = randomBytes(32);
+  const sealed = seal(contentKey, Buffer.from(JSON.stringify(contact), "utf8"));
+
+  const envelope: ContactEnvelope = {
+    version: ENVELOPE_VERSION,
+    iv: sealed.iv,
+    tag: sealed.tag,
+    ciphertext: sealed.ciphertext,
+    recipients: recipients.map((recipient) => wrapContentKey(contentKey, recipient)),
+  };
+
+  return ethers.utils.toUtf8Bytes(JSON.stringify(envelope));
+}
+
+/**
+ * Decrypt an envelope with a recipient's private key
+ * @throws If the key does not belong to any recipient of the envelope
+ */
+export function decryptContact(blob: Uint8Array, privateKey: string): ContactDetails {
+  const envelope = parseEnvelope(blob);
+  const address = ethers.utils.computeAddress(privateKey);
+
+  const entry = envelope.recipients.find((recipient) => sameAddress(recipient.address, address));
+  if (!entry) {
+    throw new Error(`${address} is not a recipient of this contact`);
+  }
+
+  const ecdh = createECDH("secp256k1");
+  ecdh.setPrivateKey(hexToBuffer(privateKey));
+  const sharedSecret = ecdh.computeSecret(hexToBuffer(entry.ephemeralPublicKey));
+  const wrappingKey = deriveWrappingKey(sharedSecret, entry.ephemeralPublicKey);
+
+  const contentKey = open(wrappingKey, entry.iv, entry.tag, entry.wrappedKey);
+  const plaintext = open(contentKey, envelope.iv, envelope.tag, envelope.ciphertext);
+
+  return JSON.parse(plaintext.toString("utf8")) as ContactDetails;
+}
+
+/**
+ * Recover a signer's public key so contacts can be encrypted to them
+ *
+ * Wallet-backed signers (browser wallets, JSON-RPC) do not expose public keys,
+ * but any signature over a known message reveals it.
+ */
+export async function contactRecipientOf(signer: ethers.Signer): Promise<ContactRecipient> {
+  const signature = await signer.signMessage(PUBLIC_KEY_MESSAGE);
+  const publicKey = ethers.utils.recoverPublicKey(ethers.utils.hashMessage(PUBLIC_KEY_MESSAGE), signature);
+  return { address: await signer.getAddress(), publicKey };
+}
+
+function wrapContentKey(contentKey: Buffer, recipient: ContactRecipient): WrappedContentKey {
+  const publicKey = ethers.utils.computePublicKey(recipient.publicKey, false);
+  if (!sameAddress(ethers.utils.computeAddress(publicKey), recipient.address)) {
+    throw new Error(`Public key does not belong to ${recipient.address}`);
+  }
+
+  const ephemeral = createECDH("secp256k1");
+  const ephemeralPublicKey = bufferToHex(ephemeral.generateKeys());
+  const sharedSecret = ephemeral.computeSecret(hexToBuffer(publicKey));
+  const sealed = seal(deriveWrappingKey(sharedSecret, ephemeralPublicKey), contentKey);
+
+  return {
+    address: ethers.utils.getAddress(recipient.address),
+    ephemeralPublicKey,
+    iv: sealed.iv,
+    tag: sealed.tag,
+    wrappedKey: sealed.ciphertext,
+  };
+}
+
+function deriveWrappingKey(sharedSecret: Buffer, ephemeralPublicKey: string): Buffer {
+  return Buffer.from(hkdfSync("sha256", sharedSecret, hexToBuffer(ephemeralPublicKey), KEY_WRAP_INFO, 32));
+}
+
+function seal(key: Buffer, plaintext: Buffer) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv: bufferToHex(iv), tag: bufferToHex(cipher.getAuthTag()), ciphertext: bufferToHex(ciphertext) };
+}
+
+function open(key: Buffer, iv: string, tag: string, ciphertext: string): Buffer {
+  const decipher = createDecipheriv("aes-256-gcm", key, hexToBuffer(iv));
+  decipher.setAuthTag(hexToBuffer(tag));
+  return Buffer.concat([decipher.update(hexToBuffer(ciphertext)), decipher.final()]);
+}
+
+function parseEnvelope(blob: Uint8Array): ContactEnvelope {
+  const envelope = JSON.parse(ethers.utils.toUtf8String(blob)) as ContactEnvelope;
+  if (envelope.version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported contact envelope version: ${envelope.version}`);
+  }
+  return envelope;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function hexToBuffer(value: string): Buffer {
+  return Buffer.from(ethers.utils.arrayify(value));
+}
+
+function bufferToHex(value: Buffer): string {
+  return ethers.utils.hexlify(value);
+}
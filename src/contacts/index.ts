@@ -0,0 +1,59 @@
+import { ethers } from "ethers";
+import { ContactDetails, ContactRecipient, decryptContact, encryptContact } from "./envelope";
+import { ContactBlobStore } from "./store";
+
+export type { ContactDetails, ContactRecipient } from "./envelope";
+export { contactRecipientOf, decryptContact, encryptContact } from "./envelope";
+export type { ContactBlobStore } from "./store";
+export { FileContactStore } from "./store";
+
+/**
+ * Mirrors SupplierManagementBase.ContactCommitment
+ */
+export interface ContactCommitment {
+  contentHash: string;
+  pointer: string;
+}
+
+/**
+ * Thrown when a fetched blob does not match the on-chain content hash
+ */
+export class ContactIntegrityError extends Error {
+  constructor(pointer: string, expected: string, actual: string) {
+    super(`Contact blob ${pointer} has hash ${actual}, expected ${expected}`);
+    this.name = "ContactIntegrityError";
+  }
+}
+
+/**
+ * Encrypt contact details for the given recipients and store the blob
+ * @returns The commitment to pass to addSupplier / updateSupplierContact
+ */
+export async function publishContact(
+  store: ContactBlobStore,
+  contact: ContactDetails,
+  recipients: ContactRecipient[]
+): Promise<ContactCommitment> {
+  const blob = encryptContact(contact, recipients);
+  const pointer = await store.put(blob);
+  return { contentHash: ethers.utils.keccak256(blob), pointer };
+}
+
+/**
+ * Fetch a contact blob, verify it against the on-chain commitment and decrypt it
+ * @throws ContactIntegrityError if the stored blob was swapped or corrupted
+ */
+export async function fetchContact(
+  store: ContactBlobStore,
+  commitment: ContactCommitment,
+  privateKey: string
+): Promise<ContactDetails> {
+  const blob = await store.get(commitment.pointer);
+
+  const actual = ethers.utils.keccak256(blob);
+  if (actual !== commitment.contentHash.toLowerCase()) {
+    throw new ContactIntegrityError(commitment.pointer, commitment.contentHash, actual);
+  }
+
+  return decryptContact(blob, privateKey);
+}
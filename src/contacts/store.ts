@@ -0,0 +1,42 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+
+/**
+ * Off-chain storage for encrypted contact blobs
+ *
+ * Production deployments back this with an object store or IPFS; the pointer
+ * is whatever key that store needs to find the blob again. The pointer is
+ * public (it is stored on-chain), so it must not leak anything about the
+ * contact itself.
+ */
+export interface ContactBlobStore {
+  /** Store a blob and return its pointer */
+  put(blob: Uint8Array): Promise<string>;
+  /** Fetch a blob by pointer */
+  get(pointer: string): Promise<Uint8Array>;
+}
+
+/**
+ * Filesystem-backed store for local development and tests
+ *
+ * Blobs are content-addressed: the pointer is the blob's keccak256 hash plus
+ * a .json suffix, relative to the store directory.
+ */
+export class FileContactStore implements ContactBlobStore {
+  constructor(private readonly directory: string) {}
+
+  async put(blob: Uint8Array): Promise<string> {
+    const pointer = `${ethers.utils.keccak256(blob).slice(2)}.json`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, pointer), blob);
+    return pointer;
+  }
+
+  async get(pointer: string): Promise<Uint8Array> {
+    if (path.basename(pointer) !== pointer) {
+      throw new Error(`Invalid contact pointer: ${pointer}`);
+    }
+    return new Uint8Array(await fs.readFile(path.join(this.directory, pointer)));
+  }
+}
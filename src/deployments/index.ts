@@ -0,0 +1,11 @@
+export type { DeploymentResult } from "./manager";
+export { DeploymentManager } from "./manager";
+export type { CompilerSettings, DeployedContract, DeploymentRecord } from "./record";
+export {
+  DEPLOYMENTS_DIR,
+  DeploymentNotFoundError,
+  deploymentPath,
+  readDeployment,
+  resolveAddress,
+  writeDeployment,
+} from "./record";
@@ -0,0 +1,123 @@
+import { execFile } from "child_process";
+import { Contract, ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { promisify } from "util";
+import {
+  CompilerSettings,
+  DeployedContract,
+  DeploymentNotFoundError,
+  DeploymentRecord,
+  deploymentPath,
+  readDeployment,
+  writeDeployment,
+} from "./record";
+
+export interface DeploymentResult {
+  contract: Contract;
+  deployment: DeployedContract;
+  /** True if the recorded deployment was identical and was reused */
+  reused: boolean;
+}
+
+/**
+ * Deploys contracts and keeps the network's deployment record current
+ *
+ * A contract is only deployed again if its creation bytecode, constructor
+ * arguments included, differs from the recorded one, or if nothing is
+ * deployed at the recorded address any more (e.g. a restarted local node).
+ * Contracts that take another contract's address as a constructor argument
+ * are therefore redeployed whenever that contract is. The record is written
+ * after every new deployment, so a failed run resumes where it stopped.
+ */
+export class DeploymentManager {
+  private constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly root: string,
+    private readonly record: DeploymentRecord,
+    private readonly gitCommit: string | null
+  ) {}
+
+  /**
+   * Load the current network's record, or start an empty one
+   * @param root Directory holding deployments/, the Hardhat project root by default
+   */
+  static async load(hre: HardhatRuntimeEnvironment, root = hre.config.paths.root): Promise<DeploymentManager> {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const empty: DeploymentRecord = { network: hre.network.name, chainId, contracts: {} };
+
+    let record: DeploymentRecord;
+    try {
+      record = await readDeployment(root, hre.network.name);
+    } catch (error) {
+      if (!(error instanceof DeploymentNotFoundError)) throw error;
+      record = empty;
+    }
+    // A record from another chain under the same network name says nothing about this one
+    if (record.chainId !== chainId) {
+      record = empty;
+    }
+    return new DeploymentManager(hre, root, record, await currentGitCommit(root));
+  }
+
+  get file(): string {
+    return deploymentPath(this.root, this.record.network);
+  }
+
+  /**
+   * Deploy a contract unless an identical deployment is already recorded
+   */
+  async deploy(name: string, args: unknown[] = []): Promise<DeploymentResult> {
+    const factory = await this.hre.ethers.getContractFactory(name);
+    const bytecodeHash = ethers.utils.keccak256(factory.getDeployTransaction(...args).data!);
+
+    const previous = this.record.contracts[name];
+    if (previous?.bytecodeHash === bytecodeHash && (await this.hasCode(previous.address))) {
+      return { contract: factory.attach(previous.address), deployment: previous, reused: true };
+    }
+
+    const contract = await factory.deploy(...args);
+    const receipt = await contract.deployTransaction.wait();
+    const artifact = await this.hre.artifacts.readArtifact(name);
+    const deployment: DeployedContract = {
+      address: contract.address,
+      txHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      abiHash: ethers.utils.id(JSON.stringify(artifact.abi)),
+      bytecodeHash,
+      compiler: await this.compilerSettings(`${artifact.sourceName}:${artifact.contractName}`),
+      gitCommit: this.gitCommit,
+      deployedAt: new Date().toISOString(),
+    };
+
+    this.record.contracts[name] = deployment;
+    await writeDeployment(this.root, this.record);
+    return { contract, deployment, reused: false };
+  }
+
+  private async hasCode(address: string): Promise<boolean> {
+    return (await this.hre.ethers.provider.getCode(address)) !== "0x";
+  }
+
+  private async compilerSettings(fullyQualifiedName: string): Promise<CompilerSettings> {
+    const buildInfo = await this.hre.artifacts.getBuildInfo(fullyQualifiedName);
+    if (!buildInfo) {
+      throw new Error(`No build info for ${fullyQualifiedName}; run hardhat compile`);
+    }
+    const { optimizer, evmVersion, viaIR } = buildInfo.input.settings;
+    return {
+      version: buildInfo.solcLongVersion,
+      optimizer: { enabled: optimizer.enabled, runs: optimizer.runs },
+      evmVersion,
+      viaIR,
+    };
+  }
+}
+
+async function currentGitCommit(root: string): Promise<string | null> {
+  try {
+    const { stdout } = await promisify(execFile)("git", ["rev-parse", "HEAD"], { cwd: root });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+/**
+ * Per-network deployment records
+ *
+ * scripts/deploy.ts writes deployments/<network>.json through the
+ * DeploymentManager; the frontend, tasks, scripts and SDK read it to find
+ * contract addresses instead of having them pasted in.
+ */
+
+export interface CompilerSettings {
+  /** Full solc version, e.g. 0.8.24+commit.e11b9ed9 */
+  version: string;
+  optimizer: { enabled?: boolean; runs?: number };
+  evmVersion?: string;
+  viaIR?: boolean;
+}
+
+export interface DeployedContract {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  /** keccak256 of the ABI JSON, to tell whether clients need a new ABI */
+  abiHash: string;
+  /** keccak256 of the creation bytecode including constructor arguments */
+  bytecodeHash: string;
+  compiler: CompilerSettings;
+  /** Commit the contract was deployed from, or null outside a git checkout */
+  gitCommit: string | null;
+  /** ISO 8601 deployment time */
+  deployedAt: string;
+}
+
+export interface DeploymentRecord {
+  network: string;
+  chainId: number;
+  contracts: Record<string, DeployedContract>;
+}
+
+export const DEPLOYMENTS_DIR = "deployments";
+
+/**
+ * Thrown when a network has no deployment record, or the record lacks a contract
+ */
+export class DeploymentNotFoundError extends Error {
+  constructor(network: string, contractName?: string) {
+    super(
+      contractName
+        ? `The ${network} deployment record has no ${contractName}; redeploy with scripts/deploy.ts`
+        : `No deployment record for network ${network}; deploy with scripts/deploy.ts first`
+    );
+    this.name = "DeploymentNotFoundError";
+  }
+}
+
+export function deploymentPath(root: string, network: string): string {
+  return path.join(root, DEPLOYMENTS_DIR, `${network}.json`);
+}
+
+/**
+ * Read a network's deployment record
+ * @throws DeploymentNotFoundError if the network has not been deployed to
+ */
+export async function readDeployment(root: string, network: string): Promise<DeploymentRecord> {
+  let text: string;
+  try {
+    text = await fs.readFile(deploymentPath(root, network), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    throw new DeploymentNotFoundError(network);
+  }
+  return JSON.parse(text) as DeploymentRecord;
+}
+
+/**
+ * Write a network's deployment record, replacing any previous one
+ */
+export async function writeDeployment(root: string, record: DeploymentRecord): Promise<string> {
+  const file = deploymentPath(root, record.network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(record, null, 2)}\n`);
+  return file;
+}
+
+/**
+ * Address of a deployed contract, SupplierManagement by default
+ * @throws DeploymentNotFoundError if the network or contract has no record
+ */
+export async function resolveAddress(
+  root: string,
+  network: string,
+  contractName = "SupplierManagement"
+): Promise<string> {
+  const contract = (await readDeployment(root, network)).contracts[contractName];
+  if (!contract) {
+    throw new DeploymentNotFoundError(network, contractName);
+  }
+  return contract.address;
+}
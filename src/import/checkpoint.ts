@@ -0,0 +1,96 @@
+import { promises as fs } from "fs";
+import { ethers } from "ethers";
+import { SupplierRow } from "./rows";
+
+/**
+ * Import progress persisted between runs
+ *
+ * Rows are always imported in file order, so progress is a single count of
+ * rows confirmed on-chain. A transaction that was sent but not yet confirmed
+ * is recorded as pending, so a crash between sending and confirming neither
+ * loses nor duplicates its rows: the next run settles it first.
+ */
+export interface ImportCheckpoint {
+  version: number;
+  contract: string;
+  orgId: string;
+  /** Hash of the validated rows, so a checkpoint is never resumed against a different file */
+  rowsHash: string;
+  imported: number;
+  supplierIds: string[];
+  transactions: string[];
+  pending?: PendingBatch;
+}
+
+export interface PendingBatch {
+  txHash: string;
+  rows: number;
+}
+
+export const CHECKPOINT_VERSION = 1;
+
+/**
+ * Thrown when a checkpoint file belongs to a different import
+ */
+export class CheckpointMismatchError extends Error {
+  constructor(file: string, field: string) {
+    super(`Checkpoint ${file} was written for a different ${field}; use a new checkpoint file`);
+    this.name = "CheckpointMismatchError";
+  }
+}
+
+export function hashRows(rows: SupplierRow[]): string {
+  const normalized = rows.map(({ name, category, rating, isPreferred, contact }) => ({
+    name,
+    category,
+    rating,
+    isPreferred,
+    contact: { contentHash: contact.contentHash.toLowerCase(), pointer: contact.pointer },
+  }));
+  return ethers.utils.id(JSON.stringify(normalized));
+}
+
+/**
+ * Load the checkpoint for this import, or start a fresh one if the file does not exist
+ * @throws CheckpointMismatchError if the file records a different contract, organization or input
+ */
+export async function loadCheckpoint(
+  file: string,
+  contract: string,
+  orgId: string,
+  rows: SupplierRow[]
+): Promise<ImportCheckpoint> {
+  const rowsHash = hashRows(rows);
+
+  let text: string;
+  try {
+    text = await fs.readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    return { version: CHECKPOINT_VERSION, contract, orgId, rowsHash, imported: 0, supplierIds: [], transactions: [] };
+  }
+
+  const checkpoint = JSON.parse(text) as ImportCheckpoint;
+  if (checkpoint.version !== CHECKPOINT_VERSION) {
+    throw new Error(`Unsupported checkpoint version: ${checkpoint.version}`);
+  }
+  if (checkpoint.contract.toLowerCase() !== contract.toLowerCase()) {
+    throw new CheckpointMismatchError(file, "contract");
+  }
+  if (checkpoint.orgId !== orgId) {
+    throw new CheckpointMismatchError(file, "organization");
+  }
+  if (checkpoint.rowsHash !== rowsHash) {
+    throw new CheckpointMismatchError(file, "input file");
+  }
+  return checkpoint;
+}
+
+/**
+ * Write the checkpoint atomically, so a crash mid-write leaves the previous version intact
+ */
+export async function saveCheckpoint(file: string, checkpoint: ImportCheckpoint): Promise<void> {
+  const temporary = `${file}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(checkpoint, null, 2));
+  await fs.rename(temporary, file);
+}
@@ -0,0 +1,194 @@
+import { BigNumber, BigNumberish, ContractReceipt, ethers } from "ethers";
+import { SupplierManagementExtension } from "../../typechain-types";
+import { ImportCheckpoint, loadCheckpoint, saveCheckpoint } from "./checkpoint";
+import { SupplierRow } from "./rows";
+
+/**
+ * Encrypted input builder, as returned by the FHEVM hardhat plugin's and the
+ * relayer SDK's createEncryptedInput
+ */
+export interface EncryptedInput {
+  add8(value: number): unknown;
+  addBool(value: boolean): unknown;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+export type CreateEncryptedInput = (contractAddress: string, userAddress: string) => EncryptedInput;
+
+export interface ImportOptions {
+  orgId: BigNumberish;
+  createEncryptedInput: CreateEncryptedInput;
+  checkpointFile: string;
+  /** Upper bound on the gas of a single batch transaction */
+  maxGasPerTx?: BigNumberish;
+  onBatch?: (batch: ImportedBatch) => void;
+}
+
+export interface ImportedBatch {
+  fromLine: number;
+  toLine: number;
+  txHash: string;
+  gasUsed: BigNumber;
+  imported: number;
+  total: number;
+}
+
+export interface ImportResult {
+  /** Supplier IDs in row order, including rows imported by earlier runs */
+  supplierIds: BigNumber[];
+  transactions: string[];
+  /** Rows already imported when this run started */
+  resumedFrom: number;
+}
+
+export const DEFAULT_MAX_GAS_PER_TX = 10_000_000;
+
+// Headroom over the estimate when sending, since FHE gas costs vary slightly between estimate and execution
+const GAS_LIMIT_MARGIN_PERCENT = 20;
+
+/**
+ * Import validated rows with addSuppliersBatch, resuming from the checkpoint file
+ *
+ * Rows go out in file order in batches of at most MAX_BATCH_SIZE. A batch whose
+ * estimated gas exceeds maxGasPerTx is shrunk in proportion and re-encrypted,
+ * and later batches start from the last size that fit. The checkpoint is
+ * written before and after every transaction.
+ *
+ * @param contract SupplierManagementExtension attached at the SupplierManagement address, with a signer
+ */
+export async function importSuppliers(
+  contract: SupplierManagementExtension,
+  rows: SupplierRow[],
+  options: ImportOptions
+): Promise<ImportResult> {
+  const orgId = BigNumber.from(options.orgId).toString();
+  const maxGas = BigNumber.from(options.maxGasPerTx ?? DEFAULT_MAX_GAS_PER_TX);
+  const checkpoint = await loadCheckpoint(options.checkpointFile, contract.address, orgId, rows);
+
+  if (checkpoint.pending) {
+    await settlePending(contract, checkpoint);
+    await saveCheckpoint(options.checkpointFile, checkpoint);
+  }
+  const resumedFrom = checkpoint.imported;
+
+  let batchSize = (await contract.MAX_BATCH_SIZE()).toNumber();
+  while (checkpoint.imported < rows.length) {
+    const remaining = rows.slice(checkpoint.imported);
+    const batch = await prepareBatch(contract, remaining, Math.min(batchSize, remaining.length), maxGas, options);
+    batchSize = batch.rows.length;
+
+    const tx = await contract.addSuppliersBatch(orgId, batch.inputs, batch.inputProof, {
+      gasLimit: batch.gas.mul(100 + GAS_LIMIT_MARGIN_PERCENT).div(100),
+    });
+    checkpoint.pending = { txHash: tx.hash, rows: batch.rows.length };
+    await saveCheckpoint(options.checkpointFile, checkpoint);
+
+    const receipt = await tx.wait();
+    recordBatch(contract, checkpoint, receipt);
+    await saveCheckpoint(options.checkpointFile, checkpoint);
+
+    options.onBatch?.({
+      fromLine: batch.rows[0].line,
+      toLine: batch.rows[batch.rows.length - 1].line,
+      txHash: receipt.transactionHash,
+      gasUsed: receipt.gasUsed,
+      imported: checkpoint.imported,
+      total: rows.length,
+    });
+  }
+
+  return {
+    supplierIds: checkpoint.supplierIds.map((id) => BigNumber.from(id)),
+    transactions: checkpoint.transactions,
+    resumedFrom,
+  };
+}
+
+/**
+ * Encrypt the largest prefix of rows, up to size, whose batch fits within maxGas
+ */
+async function prepareBatch(
+  contract: SupplierManagementExtension,
+  rows: SupplierRow[],
+  size: number,
+  maxGas: BigNumber,
+  options: ImportOptions
+) {
+  const signerAddress = await contract.signer.getAddress();
+
+  for (;;) {
+    const chunk = rows.slice(0, size);
+
+    // Handles are bound to the proof they were encrypted with, so every attempt re-encrypts the whole chunk
+    const input = options.createEncryptedInput(contract.address, signerAddress);
+    for (const row of chunk) {
+      input.add8(row.rating);
+      input.addBool(row.isPreferred);
+    }
+    const encrypted = await input.encrypt();
+
+    const inputs = chunk.map((row, i) => ({
+      name: row.name,
+      category: row.category,
+      contact: row.contact,
+      encryptedRating: encrypted.handles[2 * i],
+      encryptedPreferred: encrypted.handles[2 * i + 1],
+    }));
+
+    const gas = await contract.estimateGas.addSuppliersBatch(options.orgId, inputs, encrypted.inputProof);
+    if (gas.lte(maxGas)) {
+      return { rows: chunk, inputs, inputProof: encrypted.inputProof, gas };
+    }
+    if (size === 1) {
+      throw new Error(`Supplier on line ${chunk[0].line} needs ${gas} gas, above the ${maxGas} limit per transaction`);
+    }
+    size = Math.max(1, Math.min(size - 1, maxGas.mul(size).div(gas).toNumber()));
+  }
+}
+
+/**
+ * Resolve a batch sent by an earlier run that stopped before recording its outcome
+ */
+async function settlePending(contract: SupplierManagementExtension, checkpoint: ImportCheckpoint) {
+  const { txHash } = checkpoint.pending!;
+  let receipt = await contract.provider.getTransactionReceipt(txHash);
+
+  if (!receipt) {
+    if (!(await contract.provider.getTransaction(txHash))) {
+      // Never mined and no longer known to the node: the rows were not imported
+      checkpoint.pending = undefined;
+      return;
+    }
+    receipt = await contract.provider.waitForTransaction(txHash);
+  }
+
+  if (receipt.status === 1) {
+    recordBatch(contract, checkpoint, receipt);
+  } else {
+    checkpoint.pending = undefined;
+  }
+}
+
+function recordBatch(
+  contract: SupplierManagementExtension,
+  checkpoint: ImportCheckpoint,
+  receipt: ContractReceipt | ethers.providers.TransactionReceipt
+) {
+  const supplierIds = receipt.logs
+    .filter((log) => log.address.toLowerCase() === contract.address.toLowerCase())
+    .map((log) => contract.interface.parseLog(log))
+    .filter((event) => event.name === "SupplierAdded")
+    .map((event) => event.args.supplierId.toString());
+
+  const expected = checkpoint.pending!.rows;
+  if (supplierIds.length !== expected) {
+    throw new Error(
+      `Transaction ${receipt.transactionHash} added ${supplierIds.length} suppliers, expected ${expected}`
+    );
+  }
+
+  checkpoint.imported += supplierIds.length;
+  checkpoint.supplierIds.push(...supplierIds);
+  checkpoint.transactions.push(receipt.transactionHash);
+  checkpoint.pending = undefined;
+}
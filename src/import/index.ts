@@ -0,0 +1,6 @@
+export type { ImportCheckpoint, PendingBatch } from "./checkpoint";
+export { CheckpointMismatchError, loadCheckpoint, saveCheckpoint } from "./checkpoint";
+export type { CreateEncryptedInput, EncryptedInput, ImportedBatch, ImportOptions, ImportResult } from "./importer";
+export { DEFAULT_MAX_GAS_PER_TX, importSuppliers } from "./importer";
+export type { RowIssue, SupplierRow } from "./rows";
+export { NO_CONTACT, SupplierRowError, parseSupplierCsv, parseSupplierJson, readSupplierFile } from "./rows";
@@ -0,0 +1,242 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { ContactCommitment } from "../contacts";
+
+/**
+ * Supplier rows for batch onboarding
+ *
+ * Rows are validated against the same rules addSupplier enforces on-chain
+ * (rating 1-10, non-empty name and category) before anything is encrypted
+ * or sent, so a bad file fails fast instead of halfway through an import.
+ */
+
+export interface SupplierRow {
+  /** Line (CSV) or array index + 1 (JSON) the row came from, for error messages */
+  line: number;
+  name: string;
+  category: string;
+  rating: number;
+  isPreferred: boolean;
+  contact: ContactCommitment;
+}
+
+export interface RowIssue {
+  line: number;
+  message: string;
+}
+
+/**
+ * Thrown when an input file has rows the contract would reject
+ */
+export class SupplierRowError extends Error {
+  constructor(readonly issues: RowIssue[]) {
+    super(`Invalid supplier rows:\n${issues.map((issue) => `  line ${issue.line}: ${issue.message}`).join("\n")}`);
+    this.name = "SupplierRowError";
+  }
+}
+
+export const NO_CONTACT: ContactCommitment = { contentHash: ethers.constants.HashZero, pointer: "" };
+
+const CSV_COLUMNS = ["name", "category", "rating", "preferred", "contacthash", "contactpointer"];
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0", ""];
+
+/**
+ * Read and validate a .csv or .json supplier file
+ * @throws SupplierRowError listing every invalid row
+ */
+export async function readSupplierFile(file: string): Promise<SupplierRow[]> {
+  const text = await fs.readFile(file, "utf8");
+  switch (path.extname(file).toLowerCase()) {
+    case ".csv":
+      return parseSupplierCsv(text);
+    case ".json":
+      return parseSupplierJson(text);
+    default:
+      throw new Error(`Unsupported supplier file type: ${file} (expected .csv or .json)`);
+  }
+}
+
+/**
+ * Parse a CSV file with a header row
+ *
+ * Columns: name, category, rating, preferred (optional), contactHash and
+ * contactPointer (optional, from publishContact). Header names are case-insensitive.
+ */
+export function parseSupplierCsv(text: string): SupplierRow[] {
+  // Spreadsheet exports often start with a byte order mark
+  const records = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (records.length === 0) {
+    throw new SupplierRowError([{ line: 1, message: "missing header row" }]);
+  }
+
+  const header = records[0].fields.map((column) => column.trim().toLowerCase());
+  const unknown = header.filter((column) => !CSV_COLUMNS.includes(column));
+  if (unknown.length > 0) {
+    throw new SupplierRowError([{ line: records[0].line, message: `unknown columns: ${unknown.join(", ")}` }]);
+  }
+
+  const raw = records
+    .slice(1)
+    .filter((record) => record.fields.some((field) => field.trim() !== ""))
+    .map((record) => {
+      const value = (column: string) => {
+        const index = header.indexOf(column);
+        return index === -1 ? undefined : record.fields[index];
+      };
+      return {
+        line: record.line,
+        name: value("name"),
+        category: value("category"),
+        rating: value("rating"),
+        preferred: value("preferred"),
+        contact: value("contactpointer")
+          ? { contentHash: value("contacthash"), pointer: value("contactpointer") }
+          : undefined,
+      };
+    });
+
+  return validateRows(raw);
+}
+
+/**
+ * Parse a JSON array of {name, category, rating, preferred?, contact?} objects
+ */
+export function parseSupplierJson(text: string): SupplierRow[] {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new SupplierRowError([{ line: 1, message: "expected a JSON array of suppliers" }]);
+  }
+
+  return validateRows(
+    parsed.map((entry, index) => ({
+      line: index + 1,
+      name: entry?.name,
+      category: entry?.category,
+      rating: entry?.rating,
+      preferred: entry?.preferred ?? entry?.isPreferred,
+      contact: entry?.contact,
+    }))
+  );
+}
+
+interface RawRow {
+  line: number;
+  name: unknown;
+  category: unknown;
+  rating: unknown;
+  preferred: unknown;
+  contact: unknown;
+}
+
+function validateRows(raw: RawRow[]): SupplierRow[] {
+  const issues: RowIssue[] = [];
+  const rows: SupplierRow[] = [];
+
+  for (const entry of raw) {
+    const problems: string[] = [];
+
+    const name = typeof entry.name === "string" ? entry.name.trim() : "";
+    if (name === "") problems.push("name cannot be empty");
+
+    const category = typeof entry.category === "string" ? entry.category.trim() : "";
+    if (category === "") problems.push("category cannot be empty");
+
+    const rating = Number(typeof entry.rating === "string" ? entry.rating.trim() : entry.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 10) {
+      problems.push(`rating must be an integer between 1 and 10, got ${JSON.stringify(entry.rating)}`);
+    }
+
+    const isPreferred = parsePreferred(entry.preferred);
+    if (isPreferred === undefined) {
+      problems.push(`preferred must be true or false, got ${JSON.stringify(entry.preferred)}`);
+    }
+
+    const contact = parseContact(entry.contact);
+    if (contact === undefined) {
+      problems.push("contact needs a 32-byte contentHash and a non-empty pointer");
+    }
+
+    if (problems.length > 0) {
+      issues.push(...problems.map((message) => ({ line: entry.line, message })));
+    } else {
+      rows.push({ line: entry.line, name, category, rating, isPreferred: isPreferred!, contact: contact! });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new SupplierRowError(issues);
+  }
+  if (rows.length === 0) {
+    throw new SupplierRowError([{ line: 1, message: "no supplier rows found" }]);
+  }
+  return rows;
+}
+
+function parsePreferred(value: unknown): boolean | undefined {
+  if (value === undefined || value === null) return false;
+  if (typeof value === "boolean") return value;
+  const text = String(value).trim().toLowerCase();
+  if (TRUE_VALUES.includes(text)) return true;
+  if (FALSE_VALUES.includes(text)) return false;
+  return undefined;
+}
+
+function parseContact(value: unknown): ContactCommitment | undefined {
+  if (value === undefined || value === null) return NO_CONTACT;
+  const { contentHash, pointer } = value as Partial<ContactCommitment>;
+  if (typeof pointer !== "string" || pointer.trim() === "") return undefined;
+  if (typeof contentHash !== "string" || !ethers.utils.isHexString(contentHash.trim(), 32)) return undefined;
+  return { contentHash: contentHash.trim(), pointer: pointer.trim() };
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain commas, newlines and "" escapes
+ */
+function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = "";
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new SupplierRowError([{ line: recordLine, message: "unterminated quoted field" }]);
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+  return records;
+}
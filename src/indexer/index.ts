@@ -0,0 +1,25 @@
+export type { IndexerOptions, SyncResult } from "./indexer";
+export {
+  DEFAULT_CONFIRMATIONS,
+  DEFAULT_MAX_BLOCK_RANGE,
+  INDEXED_EVENTS,
+  ReorgTooDeepError,
+  SupplierIndexer,
+} from "./indexer";
+export type {
+  BlockRef,
+  CategorySummary,
+  DecryptionRequestQuery,
+  DecryptionRequestStatus,
+  EventQuery,
+  IndexedDecryptionRequest,
+  IndexedEvent,
+  IndexedEventName,
+  IndexedSupplier,
+  ListResult,
+  OwnerSummary,
+  PageQuery,
+  StoreIdentity,
+  SupplierQuery,
+} from "./store";
+export { IndexerStore, SCHEMA_VERSION, StoreMismatchError } from "./store";
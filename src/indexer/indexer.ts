@@ -0,0 +1,222 @@
+import { BigNumber, ethers } from "ethers";
+import { SupplierManagement, SupplierManagement__factory } from "../../typechain-types";
+import { BlockRef, IndexedEvent, IndexedEventName, IndexerStore } from "./store";
+
+export interface IndexerOptions {
+  /** First block to index, normally the contract's deployment block */
+  startBlock: number;
+  /** Blocks this deep below the head are treated as final; default 12 */
+  confirmations?: number;
+  /** Maximum number of blocks per eth_getLogs request; default 2000 */
+  maxBlockRange?: number;
+}
+
+export interface SyncResult {
+  /** Checkpoint after the sync */
+  checkpoint: number;
+  events: number;
+  /** Block the index was rolled back to, if a reorganization was detected */
+  rolledBackTo?: number;
+}
+
+export const DEFAULT_CONFIRMATIONS = 12;
+export const DEFAULT_MAX_BLOCK_RANGE = 2000;
+
+export const INDEXED_EVENTS: IndexedEventName[] = [
+  "SupplierAdded",
+  "SupplierRatingUpdated",
+  "SupplierPreferenceUpdated",
+  "RatingDecryptionRequested",
+  "RatingDecrypted",
+  "DecryptionRequestCancelled",
+  "DecryptionRequestExpired",
+];
+
+// The low 128 bits of a supplier ID are its number within the organization
+const SUPPLIER_NUMBER_BITS = 128;
+
+/**
+ * Thrown when the chain reorganized below every block hash the index still holds
+ */
+export class ReorgTooDeepError extends Error {
+  constructor(oldestKnownBlock: number) {
+    super(
+      `Chain reorganized below block ${oldestKnownBlock}, deeper than the confirmation depth; ` +
+        "rebuild the index from the start block"
+    );
+    this.name = "ReorgTooDeepError";
+  }
+}
+
+/**
+ * Replays supplier events into an IndexerStore
+ *
+ * Each sync first checks that the checkpoint block is still on the canonical
+ * chain. If it is not, the index is rolled back to the newest recorded block
+ * that is, and the orphaned range is indexed again. Block hashes are kept
+ * only for the last `confirmations` blocks; a reorganization deeper than
+ * that is reported with ReorgTooDeepError instead of being guessed at.
+ */
+export class SupplierIndexer {
+  private readonly contract: SupplierManagement;
+  private readonly confirmations: number;
+  private readonly maxBlockRange: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    address: string,
+    private readonly provider: ethers.providers.Provider,
+    private readonly store: IndexerStore,
+    private readonly options: IndexerOptions
+  ) {
+    this.contract = SupplierManagement__factory.connect(address, provider);
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+  }
+
+  /**
+   * Index every block up to the current head
+   */
+  async sync(): Promise<SyncResult> {
+    const rolledBackTo = await this.handleReorg();
+    const head = await this.provider.getBlockNumber();
+
+    let events = 0;
+    let from = (this.store.checkpoint()?.number ?? this.options.startBlock - 1) + 1;
+    while (from <= head) {
+      const to = Math.min(from + this.maxBlockRange - 1, head);
+      events += await this.indexRange(from, to);
+      from = to + 1;
+    }
+    this.store.pruneBlocks(head - this.confirmations);
+
+    return { checkpoint: this.store.checkpoint()?.number ?? this.options.startBlock - 1, events, rolledBackTo };
+  }
+
+  /**
+   * Sync now and then every `intervalMs` until stop() is called
+   * @param onResult Called after each successful sync
+   * @param onError Called with errors from a sync; the next sync retries
+   */
+  start(intervalMs: number, onResult?: (result: SyncResult) => void, onError?: (error: unknown) => void): void {
+    const run = async () => {
+      try {
+        const result = await this.sync();
+        onResult?.(result);
+      } catch (error) {
+        onError?.(error);
+      }
+      if (this.timer) {
+        this.timer = setTimeout(run, intervalMs);
+      }
+    };
+    this.timer = setTimeout(run, 0);
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private async indexRange(from: number, to: number): Promise<number> {
+    const logs = await this.provider.getLogs({
+      address: this.contract.address,
+      fromBlock: from,
+      toBlock: to,
+      topics: [INDEXED_EVENTS.map((name) => this.contract.interface.getEventTopic(name))],
+    });
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      events.push(await this.toIndexedEvent(log));
+    }
+
+    const blocks = new Map<number, string>(events.map((event) => [event.blockNumber, event.blockHash]));
+    const checkpoint = await this.provider.getBlock(to);
+    this.store.commit(
+      events,
+      [...blocks].map(([number, hash]) => ({ number, hash })),
+      { number: checkpoint.number, hash: checkpoint.hash }
+    );
+    return events.length;
+  }
+
+  private async toIndexedEvent(log: ethers.providers.Log): Promise<IndexedEvent> {
+    const parsed = this.contract.interface.parseLog(log);
+    const supplierId = await this.supplierIdOf(parsed);
+    const base = {
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      name: parsed.name as IndexedEventName,
+      supplierId: supplierId.toString(),
+    };
+
+    switch (base.name) {
+      case "SupplierAdded":
+        return {
+          ...base,
+          args: {
+            orgId: parsed.args.orgId.toString(),
+            number: supplierId.mask(SUPPLIER_NUMBER_BITS).toNumber(),
+            name: parsed.args.name,
+            category: parsed.args.category,
+            owner: parsed.args.owner,
+            isPreferred: parsed.args.isPreferred,
+          },
+        };
+      case "SupplierRatingUpdated":
+        return { ...base, args: { updater: parsed.args.updater } };
+      case "SupplierPreferenceUpdated":
+        return { ...base, args: { updater: parsed.args.updater, isPreferred: parsed.args.isPreferred } };
+      case "RatingDecrypted":
+        return {
+          ...base,
+          args: {
+            requestId: parsed.args.requestId.toString(),
+            requester: parsed.args.requester,
+            rating: parsed.args.rating,
+          },
+        };
+      case "RatingDecryptionRequested":
+      case "DecryptionRequestCancelled":
+      case "DecryptionRequestExpired":
+        return {
+          ...base,
+          args: { requestId: parsed.args.requestId.toString(), requester: parsed.args.requester },
+        };
+    }
+  }
+
+  // Cancelled and expired requests only carry the request ID; a request's supplier never changes
+  private async supplierIdOf(parsed: ethers.utils.LogDescription): Promise<BigNumber> {
+    if (parsed.args.supplierId !== undefined) {
+      return parsed.args.supplierId as BigNumber;
+    }
+    return (await this.contract.getDecryptionRequest(parsed.args.requestId)).supplierId;
+  }
+
+  /**
+   * Roll back to the newest recorded block that is still canonical
+   * @returns The block rolled back to, or undefined if the checkpoint is canonical
+   */
+  private async handleReorg(): Promise<number | undefined> {
+    const recorded = this.store.recentBlocks();
+    for (const [i, block] of recorded.entries()) {
+      if (await this.isCanonical(block)) {
+        if (i === 0) return undefined;
+        this.store.rollback(block);
+        return block.number;
+      }
+    }
+    if (recorded.length > 0) {
+      throw new ReorgTooDeepError(recorded[recorded.length - 1].number);
+    }
+    return undefined;
+  }
+
+  private async isCanonical(block: BlockRef): Promise<boolean> {
+    const current = await this.provider.getBlock(block.number);
+    return current !== null && current.hash === block.hash;
+  }
+}
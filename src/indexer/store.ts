@@ -0,0 +1,585 @@
+import Database from "better-sqlite3";
+
+/**
+ * SQLite store for indexed supplier events
+ *
+ * The events table is the source of truth: every indexed log is kept with
+ * its block, and the suppliers and decryption_requests tables are
+ * projections folded from those events. Every event belongs to a supplier,
+ * so rolling back a reorganized block range deletes its events and re-folds
+ * the suppliers they touched, and the projections always match the
+ * surviving events.
+ */
+
+export type IndexedEventName =
+  | "SupplierAdded"
+  | "SupplierRatingUpdated"
+  | "SupplierPreferenceUpdated"
+  | "RatingDecryptionRequested"
+  | "RatingDecrypted"
+  | "DecryptionRequestCancelled"
+  | "DecryptionRequestExpired";
+
+export interface IndexedEvent {
+  blockNumber: number;
+  logIndex: number;
+  blockHash: string;
+  txHash: string;
+  name: IndexedEventName;
+  supplierId: string;
+  /** Decoded event arguments; uint256 values as decimal strings */
+  args: Record<string, string | number>;
+}
+
+export interface IndexedSupplier {
+  id: string;
+  orgId: string;
+  /** Position of the supplier within its organization, starting at 1 */
+  number: number;
+  name: string;
+  category: string;
+  owner: string;
+  /** Encrypted preferred flag as of the latest indexed event */
+  isPreferredHandle: string;
+  ratingUpdates: number;
+  lastRatedBlock: number | null;
+  /** Rating revealed by the latest RatingDecrypted event, or null if never decrypted */
+  decryptedRating: number | null;
+  decryptedAtBlock: number | null;
+  addedBlock: number;
+}
+
+/**
+ * Mirrors SupplierManagementBase.DecryptionStatus, without None
+ */
+export type DecryptionRequestStatus = "Pending" | "Fulfilled" | "Cancelled" | "Expired";
+
+export interface IndexedDecryptionRequest {
+  requestId: string;
+  supplierId: string;
+  requester: string;
+  status: DecryptionRequestStatus;
+  /** Revealed rating once the request is fulfilled */
+  rating: number | null;
+  requestedBlock: number;
+  resolvedBlock: number | null;
+}
+
+export interface CategorySummary {
+  orgId: string;
+  category: string;
+  suppliers: number;
+}
+
+export interface OwnerSummary {
+  owner: string;
+  suppliers: number;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+export interface StoreIdentity {
+  chainId: number;
+  contract: string;
+}
+
+export interface PageQuery {
+  offset?: number;
+  /** Maximum number of items; all remaining items if omitted */
+  limit?: number;
+}
+
+export interface SupplierQuery extends PageQuery {
+  orgId?: string;
+  category?: string;
+  owner?: string;
+}
+
+export interface EventQuery extends PageQuery {
+  supplierId?: string;
+  name?: IndexedEventName;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface DecryptionRequestQuery extends PageQuery {
+  status?: DecryptionRequestStatus;
+  supplierId?: string;
+  requester?: string;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  /** Number of matching items before paging */
+  total: number;
+}
+
+export const SCHEMA_VERSION = 2;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    supplier_id TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_supplier ON events (supplier_id, block_number, log_index);
+  CREATE TABLE IF NOT EXISTS suppliers (
+    id TEXT PRIMARY KEY,
+    org_id TEXT NOT NULL,
+    number INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    category TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    is_preferred_handle TEXT NOT NULL,
+    rating_updates INTEGER NOT NULL DEFAULT 0,
+    last_rated_block INTEGER,
+    decrypted_rating INTEGER,
+    decrypted_at_block INTEGER,
+    added_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS suppliers_by_org ON suppliers (org_id, number);
+  CREATE INDEX IF NOT EXISTS suppliers_by_category ON suppliers (category);
+  CREATE INDEX IF NOT EXISTS suppliers_by_owner ON suppliers (owner);
+  CREATE TABLE IF NOT EXISTS decryption_requests (
+    request_id TEXT PRIMARY KEY,
+    supplier_id TEXT NOT NULL,
+    requester TEXT NOT NULL,
+    status TEXT NOT NULL,
+    rating INTEGER,
+    requested_block INTEGER NOT NULL,
+    resolved_block INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS decryption_requests_by_status ON decryption_requests (status, requested_block);
+`;
+
+// Upgrades keyed by the schema version they start from; each one moves the database up one version
+const MIGRATIONS: Record<number, (db: Database.Database) => void> = {
+  // v1 never fetched the decryption request lifecycle events, so its stored events cannot fill
+  // decryption_requests; clear the index and the next sync replays it from the start block
+  1: (db) =>
+    db.exec(`
+      DELETE FROM events;
+      DELETE FROM suppliers;
+      DELETE FROM decryption_requests;
+      DELETE FROM blocks;
+      DELETE FROM meta WHERE key = 'checkpoint';
+    `),
+};
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  tx_hash: string;
+  name: IndexedEventName;
+  supplier_id: string;
+  args: string;
+}
+
+interface SupplierRow {
+  id: string;
+  org_id: string;
+  number: number;
+  name: string;
+  category: string;
+  owner: string;
+  is_preferred_handle: string;
+  rating_updates: number;
+  last_rated_block: number | null;
+  decrypted_rating: number | null;
+  decrypted_at_block: number | null;
+  added_block: number;
+}
+
+interface DecryptionRequestRow {
+  request_id: string;
+  supplier_id: string;
+  requester: string;
+  status: DecryptionRequestStatus;
+  rating: number | null;
+  requested_block: number;
+  resolved_block: number | null;
+}
+
+/**
+ * Thrown when a database was created for a different chain or contract
+ */
+export class StoreMismatchError extends Error {
+  constructor(file: string, field: string) {
+    super(`Index database ${file} was built for a different ${field}; use a new database file`);
+    this.name = "StoreMismatchError";
+  }
+}
+
+export class IndexerStore {
+  private readonly db: Database.Database;
+
+  /**
+   * Open or create an index database, upgrading one written by an older version
+   * @param file Database file, or ":memory:"
+   * @throws StoreMismatchError if the database was built for a different chain or contract
+   */
+  constructor(readonly file: string, identity: StoreIdentity) {
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+    this.checkIdentity(identity);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Last block whose events are fully indexed, or undefined before the first sync
+   */
+  checkpoint(): BlockRef | undefined {
+    const number = this.getMeta("checkpoint");
+    if (number === undefined) return undefined;
+    return this.db.prepare("SELECT number, hash FROM blocks WHERE number = ?").get(Number(number)) as BlockRef;
+  }
+
+  /**
+   * Recorded block hashes, newest first; used to find where a reorganization forked
+   */
+  recentBlocks(): BlockRef[] {
+    return this.db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as BlockRef[];
+  }
+
+  /**
+   * Store the events of a block range and advance the checkpoint, atomically
+   * @param events Events in chain order
+   * @param blocks Hashes of the blocks that had events, and of the new checkpoint block
+   */
+  commit(events: IndexedEvent[], blocks: BlockRef[], checkpoint: BlockRef): void {
+    this.db.transaction(() => {
+      const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+      for (const block of [...blocks, checkpoint]) {
+        insertBlock.run(block.number, block.hash);
+      }
+      const insertEvent = this.db.prepare(
+        "INSERT INTO events (block_number, log_index, block_hash, tx_hash, name, supplier_id, args) " +
+          "VALUES (?, ?, ?, ?, ?, ?, ?)"
+      );
+      for (const event of events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.blockHash,
+          event.txHash,
+          event.name,
+          event.supplierId,
+          JSON.stringify(event.args)
+        );
+        this.apply(event);
+      }
+      this.setMeta("checkpoint", String(checkpoint.number));
+    })();
+  }
+
+  /**
+   * Forget everything indexed after a block and re-fold the suppliers it touched
+   * @param block Last block that is still part of the canonical chain
+   */
+  rollback(block: BlockRef): void {
+    this.db.transaction(() => {
+      const affected = this.db
+        .prepare("SELECT DISTINCT supplier_id FROM events WHERE block_number > ?")
+        .pluck()
+        .all(block.number) as string[];
+
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(block.number);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(block.number);
+      this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)").run(block.number, block.hash);
+
+      const replay = this.db.prepare("SELECT * FROM events WHERE supplier_id = ? ORDER BY block_number, log_index");
+      for (const supplierId of affected) {
+        this.db.prepare("DELETE FROM suppliers WHERE id = ?").run(supplierId);
+        this.db.prepare("DELETE FROM decryption_requests WHERE supplier_id = ?").run(supplierId);
+        for (const row of replay.all(supplierId) as EventRow[]) {
+          this.apply(toEvent(row));
+        }
+      }
+      this.setMeta("checkpoint", String(block.number));
+    })();
+  }
+
+  /**
+   * Drop block hashes older than a block; blocks that deep are treated as final
+   * The newest block before the cutoff is kept as the fork point of last resort.
+   */
+  pruneBlocks(before: number): void {
+    this.db.prepare("DELETE FROM blocks WHERE number < (SELECT MAX(number) FROM blocks WHERE number < ?)").run(before);
+  }
+
+  getSupplier(supplierId: string): IndexedSupplier | undefined {
+    const row = this.db.prepare("SELECT * FROM suppliers WHERE id = ?").get(supplierId) as SupplierRow | undefined;
+    return row && toSupplier(row);
+  }
+
+  /**
+   * Suppliers matching every given filter, by organization and registration order
+   */
+  listSuppliers(query: SupplierQuery = {}): ListResult<IndexedSupplier> {
+    const where = whereClause({
+      "org_id = ?": query.orgId,
+      "category = ?": query.category,
+      "owner = ? COLLATE NOCASE": query.owner,
+    });
+    return this.page("suppliers", where, "CAST(org_id AS INTEGER), number", query, toSupplier);
+  }
+
+  /**
+   * Categories with their supplier counts, optionally in one organization
+   */
+  listCategories(orgId?: string): CategorySummary[] {
+    const where = whereClause({ "org_id = ?": orgId });
+    return this.db
+      .prepare(
+        `SELECT org_id AS orgId, category, COUNT(*) AS suppliers FROM suppliers ${where.sql} ` +
+          "GROUP BY org_id, category ORDER BY CAST(org_id AS INTEGER), category"
+      )
+      .all(...where.params) as CategorySummary[];
+  }
+
+  /**
+   * Supplier owners with the number of suppliers each owns, optionally in one organization
+   */
+  listOwners(orgId?: string): OwnerSummary[] {
+    const where = whereClause({ "org_id = ?": orgId });
+    return this.db
+      .prepare(`SELECT owner, COUNT(*) AS suppliers FROM suppliers ${where.sql} GROUP BY owner ORDER BY owner`)
+      .all(...where.params) as OwnerSummary[];
+  }
+
+  /**
+   * Indexed events matching every given filter, in chain order
+   */
+  listEvents(query: EventQuery = {}): ListResult<IndexedEvent> {
+    const where = whereClause({
+      "supplier_id = ?": query.supplierId,
+      "name = ?": query.name,
+      "block_number >= ?": query.fromBlock,
+      "block_number <= ?": query.toBlock,
+    });
+    return this.page("events", where, "block_number, log_index", query, toEvent);
+  }
+
+  /**
+   * A supplier's indexed events in chain order
+   */
+  supplierEvents(supplierId: string): IndexedEvent[] {
+    return this.listEvents({ supplierId }).items;
+  }
+
+  /**
+   * Decryption requests matching every given filter, oldest first
+   */
+  listDecryptionRequests(query: DecryptionRequestQuery = {}): ListResult<IndexedDecryptionRequest> {
+    const where = whereClause({
+      "status = ?": query.status,
+      "supplier_id = ?": query.supplierId,
+      "requester = ? COLLATE NOCASE": query.requester,
+    });
+    return this.page("decryption_requests", where, "requested_block, request_id", query, toDecryptionRequest);
+  }
+
+  // Fold one event into the suppliers projection
+  private apply(event: IndexedEvent): void {
+    const { args } = event;
+    switch (event.name) {
+      case "SupplierAdded":
+        this.db
+          .prepare(
+            "INSERT INTO suppliers (id, org_id, number, name, category, owner, is_preferred_handle, added_block) " +
+              "VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+          )
+          .run(
+            event.supplierId,
+            args.orgId,
+            args.number,
+            args.name,
+            args.category,
+            args.owner,
+            args.isPreferred,
+            event.blockNumber
+          );
+        break;
+      case "SupplierRatingUpdated":
+        this.db
+          .prepare("UPDATE suppliers SET rating_updates = rating_updates + 1, last_rated_block = ? WHERE id = ?")
+          .run(event.blockNumber, event.supplierId);
+        break;
+      case "SupplierPreferenceUpdated":
+        this.db
+          .prepare("UPDATE suppliers SET is_preferred_handle = ? WHERE id = ?")
+          .run(args.isPreferred, event.supplierId);
+        break;
+      case "RatingDecryptionRequested":
+        this.db
+          .prepare(
+            "INSERT INTO decryption_requests (request_id, supplier_id, requester, status, requested_block) " +
+              "VALUES (?, ?, ?, 'Pending', ?)"
+          )
+          .run(args.requestId, event.supplierId, args.requester, event.blockNumber);
+        break;
+      case "RatingDecrypted":
+        this.db
+          .prepare("UPDATE suppliers SET decrypted_rating = ?, decrypted_at_block = ? WHERE id = ?")
+          .run(args.rating, event.blockNumber, event.supplierId);
+        this.resolveRequest(args.requestId, "Fulfilled", event.blockNumber, args.rating);
+        break;
+      case "DecryptionRequestCancelled":
+        this.resolveRequest(args.requestId, "Cancelled", event.blockNumber);
+        break;
+      case "DecryptionRequestExpired":
+        this.resolveRequest(args.requestId, "Expired", event.blockNumber);
+        break;
+    }
+  }
+
+  private resolveRequest(
+    requestId: string | number,
+    status: DecryptionRequestStatus,
+    blockNumber: number,
+    rating: string | number | null = null
+  ): void {
+    this.db
+      .prepare("UPDATE decryption_requests SET status = ?, rating = ?, resolved_block = ? WHERE request_id = ?")
+      .run(status, rating, blockNumber, requestId);
+  }
+
+  // Count the rows matching a filter and return one page of them
+  private page<Row, T>(
+    table: string,
+    where: WhereClause,
+    orderBy: string,
+    query: PageQuery,
+    toItem: (row: Row) => T
+  ): ListResult<T> {
+    const total = this.db
+      .prepare(`SELECT COUNT(*) FROM ${table} ${where.sql}`)
+      .pluck()
+      .get(...where.params) as number;
+    const rows = this.db
+      .prepare(`SELECT * FROM ${table} ${where.sql} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+      .all(...where.params, query.limit ?? -1, query.offset ?? 0) as Row[];
+    return { items: rows.map(toItem), total };
+  }
+
+  private checkIdentity(identity: StoreIdentity): void {
+    const stored = {
+      schema: this.getMeta("schema"),
+      chainId: this.getMeta("chainId"),
+      contract: this.getMeta("contract"),
+    };
+    if (stored.schema === undefined) {
+      this.setMeta("schema", String(SCHEMA_VERSION));
+      this.setMeta("chainId", String(identity.chainId));
+      this.setMeta("contract", identity.contract.toLowerCase());
+      return;
+    }
+    const version = Number(stored.schema);
+    if (version !== SCHEMA_VERSION && !(version in MIGRATIONS)) {
+      throw new Error(`Unsupported index schema version: ${stored.schema}`);
+    }
+    if (Number(stored.chainId) !== identity.chainId) {
+      throw new StoreMismatchError(this.file, "chain");
+    }
+    if (stored.contract !== identity.contract.toLowerCase()) {
+      throw new StoreMismatchError(this.file, "contract");
+    }
+    if (version !== SCHEMA_VERSION) {
+      this.migrate(version);
+    }
+  }
+
+  // The tables new in later versions already exist, created by SCHEMA
+  private migrate(from: number): void {
+    this.db.transaction(() => {
+      for (let version = from; version < SCHEMA_VERSION; version++) {
+        MIGRATIONS[version](this.db);
+      }
+      this.setMeta("schema", String(SCHEMA_VERSION));
+    })();
+  }
+
+  private getMeta(key: string): string | undefined {
+    return this.db.prepare("SELECT value FROM meta WHERE key = ?").pluck().get(key) as string | undefined;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+  }
+}
+
+interface WhereClause {
+  sql: string;
+  params: (string | number)[];
+}
+
+// AND together the conditions whose value is defined
+function whereClause(conditions: Record<string, string | number | undefined>): WhereClause {
+  const defined = Object.entries(conditions).filter(([, value]) => value !== undefined);
+  return {
+    sql: defined.length > 0 ? `WHERE ${defined.map(([condition]) => condition).join(" AND ")}` : "",
+    params: defined.map(([, value]) => value as string | number),
+  };
+}
+
+function toEvent(row: EventRow): IndexedEvent {
+  return {
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    blockHash: row.block_hash,
+    txHash: row.tx_hash,
+    name: row.name,
+    supplierId: row.supplier_id,
+    args: JSON.parse(row.args),
+  };
+}
+
+function toSupplier(row: SupplierRow): IndexedSupplier {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    number: row.number,
+    name: row.name,
+    category: row.category,
+    owner: row.owner,
+    isPreferredHandle: row.is_preferred_handle,
+    ratingUpdates: row.rating_updates,
+    lastRatedBlock: row.last_rated_block,
+    decryptedRating: row.decrypted_rating,
+    decryptedAtBlock: row.decrypted_at_block,
+    addedBlock: row.added_block,
+  };
+}
+
+function toDecryptionRequest(row: DecryptionRequestRow): IndexedDecryptionRequest {
+  return {
+    requestId: row.request_id,
+    supplierId: row.supplier_id,
+    requester: row.requester,
+    status: row.status,
+    rating: row.rating,
+    requestedBlock: row.requested_block,
+    resolvedBlock: row.resolved_block,
+  };
+}
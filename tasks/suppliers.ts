@@ -0,0 +1,158 @@
+import { BigNumber } from "ethers";
+import { task, types } from "hardhat/config";
+import { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from "hardhat/types";
+import type { SupplierInfo } from "../src/client";
+import { resolveAddress } from "../src/deployments";
+
+/**
+ * Supplier registry tasks
+ *
+ * Usage:
+ *   npx hardhat supplier:add --name Acme --category electronics --rating 8 --preferred --network sepolia
+ *   npx hardhat supplier:list --org 0 --json --network sepolia
+ *
+ * Every task talks to the SupplierManagement address in deployments/<network>.json
+ * unless --address is given, and prints a table unless --json is given. Ratings
+ * and preferences are encrypted locally and decrypted with the signer's own
+ * EIP-712 user decryption, so plaintext values never leave this machine.
+ */
+
+interface RegistryArgs {
+  address?: string;
+  json: boolean;
+}
+
+const STATE_NAMES = ["Pending", "Approved", "Suspended", "Archived"];
+
+function registryTask(name: string, description: string): ConfigurableTaskDefinition {
+  return task(name, description)
+    .addOptionalParam("address", "SupplierManagement address (default: from deployments/<network>.json)")
+    .addFlag("json", "Print JSON instead of a table");
+}
+
+async function connect(hre: HardhatRuntimeEnvironment, args: RegistryArgs) {
+  // Loaded lazily: the client depends on typechain-types, which only exist after the first compile
+  const { SupplierClient } = await import("../src/client");
+
+  const address = args.address ?? (await resolveAddress(hre.config.paths.root, hre.network.name));
+  await hre.fhevm.initializeCLIApi();
+  const [signer] = await hre.ethers.getSigners();
+  return SupplierClient.connect(address, signer, hre.fhevm);
+}
+
+function output(args: RegistryArgs, value: object | object[]) {
+  const plain = toPlain(value);
+  if (args.json) {
+    console.log(JSON.stringify(plain, null, 2));
+  } else {
+    console.table(plain);
+  }
+}
+
+// BigNumbers print as decimal strings in both tables and JSON
+function toPlain(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toPlain(entry)]));
+  }
+  return value;
+}
+
+function supplierRow(supplier: SupplierInfo) {
+  return {
+    id: supplier.id,
+    org: supplier.orgId,
+    name: supplier.name,
+    category: supplier.category,
+    state: STATE_NAMES[supplier.state],
+    owner: supplier.owner,
+    contact: supplier.contact.pointer || "-",
+  };
+}
+
+registryTask("supplier:add", "Add a supplier with an encrypted rating and preference")
+  .addParam("name", "Supplier name")
+  .addParam("category", "Supplier category")
+  .addParam("rating", "Quality rating (1-10)", undefined, types.int)
+  .addFlag("preferred", "Mark the supplier as preferred")
+  .addOptionalParam("org", "Organization ID", "0")
+  .addOptionalParam("contactHash", "keccak256 of the encrypted contact blob")
+  .addOptionalParam("contactPointer", "Pointer to the encrypted contact blob")
+  .setAction(async (args, hre) => {
+    if (Boolean(args.contactHash) !== Boolean(args.contactPointer)) {
+      throw new Error("--contact-hash and --contact-pointer must be given together");
+    }
+    const client = await connect(hre, args);
+    const result = await client.addSupplier(args.org, {
+      name: args.name,
+      category: args.category,
+      rating: args.rating,
+      isPreferred: args.preferred,
+      contact: args.contactPointer ? { contentHash: args.contactHash, pointer: args.contactPointer } : undefined,
+    });
+    output(args, result);
+  });
+
+registryTask("supplier:list", "List an organization's suppliers")
+  .addOptionalParam("org", "Organization ID", "0")
+  .addOptionalParam("offset", "Number of suppliers to skip", 0, types.int)
+  .addOptionalParam("limit", "Maximum number of suppliers to show", 20, types.int)
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const page = await client.listSuppliers(args.org, { offset: args.offset, limit: args.limit });
+    if (args.json) {
+      output(args, { ...page, items: page.items.map(supplierRow) });
+      return;
+    }
+    output(args, page.items.map(supplierRow));
+    console.log(`Showing ${page.items.length} of ${page.total} suppliers from offset ${page.offset}`);
+  });
+
+registryTask("supplier:show", "Show a supplier's public details")
+  .addParam("id", "Supplier ID")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    output(args, supplierRow(await client.getSupplier(args.id)));
+  });
+
+registryTask("supplier:rate", "Replace a supplier's rating (owner only)")
+  .addParam("id", "Supplier ID")
+  .addParam("rating", "New quality rating (1-10)", undefined, types.int)
+  .addOptionalParam("reason", "Justification; only its hash is stored on-chain")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const reasonHash = args.reason ? hre.ethers.utils.id(args.reason) : undefined;
+    output(args, await client.updateRating(args.id, args.rating, reasonHash));
+  });
+
+registryTask("supplier:prefer", "Set a supplier's preferred flag (owner only)")
+  .addParam("id", "Supplier ID")
+  .addParam("preferred", "New preferred flag", undefined, types.boolean)
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    output(args, await client.updatePreference(args.id, args.preferred));
+  });
+
+registryTask("supplier:decrypt", "Decrypt a supplier's rating and preferred flag (owner and decryptor roles)")
+  .addParam("id", "Supplier ID")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    output(args, {
+      supplierId: args.id,
+      rating: await client.decryptRating(args.id),
+      isPreferred: await client.decryptPreferred(args.id),
+    });
+  });
+
+registryTask("supplier:compare", "Compare two suppliers' ratings without revealing either")
+  .addParam("id", "First supplier ID")
+  .addParam("other", "Second supplier ID")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    output(args, {
+      supplierId: args.id,
+      otherSupplierId: args.other,
+      ratedHigherOrEqual: await client.compareRatings(args.id, args.other),
+    });
+  });
@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import hre, { ethers, fhevm } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import { SupplierClient } from "../src/client";
+import { DeploymentManager, DeploymentNotFoundError, readDeployment, resolveAddress } from "../src/deployments";
+
+/**
+ * Test Suite: Deployment Records
+ * Category: enterprise
+ * Chapter: privacy-preserving-operations
+ *
+ * This test suite demonstrates:
+ * 1. Recording each deployment with its provenance in deployments/<network>.json
+ * 2. Skipping redeployment of contracts whose bytecode has not changed
+ * 3. Connecting tools and the SDK through the record instead of hard-coded addresses
+ */
+
+describe("Deployments", function () {
+  let root: string;
+
+  beforeEach(async function () {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "supplier-deployments-"));
+  });
+
+  afterEach(async function () {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function deployAll(manager: DeploymentManager) {
+    const extension = await manager.deploy("SupplierManagementExtension");
+    const supplierManagement = await manager.deploy("SupplierManagement", [extension.contract.address]);
+    return { extension, supplierManagement };
+  }
+
+  /**
+   * ## Test Group: Recording Deployments
+   */
+  describe("Recording Deployments", function () {
+    it("✅ CORRECT: Records address, transaction, ABI hash, compiler settings and commit", async function () {
+      const manager = await DeploymentManager.load(hre, root);
+      const { supplierManagement } = await deployAll(manager);
+
+      const record = await readDeployment(root, hre.network.name);
+      const deployed = record.contracts.SupplierManagement;
+      const receipt = await supplierManagement.contract.deployTransaction.wait();
+      const artifact = await hre.artifacts.readArtifact("SupplierManagement");
+
+      expect(record.chainId).to.equal((await ethers.provider.getNetwork()).chainId);
+      expect(deployed).to.include({
+        address: supplierManagement.contract.address,
+        txHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        abiHash: ethers.utils.id(JSON.stringify(artifact.abi)),
+      });
+      expect(deployed.compiler.version).to.match(/^0\.8\.24/);
+      expect(deployed.compiler.optimizer).to.deep.equal({ enabled: true, runs: 1000 });
+      expect(deployed.gitCommit).to.satisfy(
+        (commit: string | null) => commit === null || /^[0-9a-f]{40}$/.test(commit)
+      );
+      expect(manager.file).to.equal(path.join(root, "deployments", `${hre.network.name}.json`));
+    });
+
+    it("✅ CORRECT: Reuses contracts whose bytecode is unchanged", async function () {
+      const first = await deployAll(await DeploymentManager.load(hre, root));
+      const second = await deployAll(await DeploymentManager.load(hre, root));
+
+      expect(second.extension.reused).to.be.true;
+      expect(second.supplierManagement.reused).to.be.true;
+      expect(second.supplierManagement.contract.address).to.equal(first.supplierManagement.contract.address);
+    });
+
+    it("✅ CORRECT: Redeploys when constructor arguments change", async function () {
+      const manager = await DeploymentManager.load(hre, root);
+      const { supplierManagement } = await deployAll(manager);
+
+      const ExtensionFactory = await ethers.getContractFactory("SupplierManagementExtension");
+      const otherExtension = await ExtensionFactory.deploy();
+      await otherExtension.deployed();
+      const redeployed = await manager.deploy("SupplierManagement", [otherExtension.address]);
+
+      expect(redeployed.reused).to.be.false;
+      expect(redeployed.contract.address).to.not.equal(supplierManagement.contract.address);
+      expect(await resolveAddress(root, hre.network.name)).to.equal(redeployed.contract.address);
+    });
+
+    it("❌ INCORRECT: A recorded address without code is not reused", async function () {
+      const { extension } = await deployAll(await DeploymentManager.load(hre, root));
+      await ethers.provider.send("hardhat_setCode", [extension.contract.address, "0x"]);
+
+      const again = await (await DeploymentManager.load(hre, root)).deploy("SupplierManagementExtension");
+
+      expect(again.reused).to.be.false;
+      expect(again.contract.address).to.not.equal(extension.contract.address);
+    });
+  });
+
+  /**
+   * ## Test Group: Reading Deployments
+   */
+  describe("Reading Deployments", function () {
+    it("✅ CORRECT: Connects the SDK to the recorded SupplierManagement", async function () {
+      const [, owner] = await ethers.getSigners();
+      const { supplierManagement } = await deployAll(await DeploymentManager.load(hre, root));
+
+      const client = SupplierClient.fromDeployment(await readDeployment(root, hre.network.name), owner, fhevm);
+
+      expect(client.address).to.equal(supplierManagement.contract.address);
+      expect((await client.contract.getSupplierCount(0)).toNumber()).to.equal(0);
+    });
+
+    it("❌ INCORRECT: Reading a network without a record fails", async function () {
+      let error: unknown;
+      try {
+        await resolveAddress(root, hre.network.name);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(DeploymentNotFoundError);
+    });
+  });
+});
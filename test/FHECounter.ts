@@ -1,5 +1,6 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { BigNumber } from "ethers";
+import { ethers, fhevm } from "hardhat";
 import { FHECounter } from "../typechain-types";
 
 /**
@@ -28,6 +29,16 @@ describe("FHECounter", function () {
     await contract.deployed();
   });
 
+  // Request ID from the CountDecryptionRequested log; the ACL and oracle log from their own addresses
+  async function requestDecryption(): Promise<BigNumber> {
+    const receipt = await (await contract.connect(owner).requestCountDecryption()).wait();
+    const requested = receipt.logs
+      .filter((log) => log.address.toLowerCase() === contract.address.toLowerCase())
+      .map((log) => contract.interface.parseLog(log))
+      .find((event) => event.name === "CountDecryptionRequested");
+    return requested!.args.requestId;
+  }
+
   describe("Initialization", function () {
     it("✅ CORRECT: Counter initializes with owner", async function () {
       const contractOwner = await contract.owner();
@@ -151,6 +162,33 @@ describe("FHECounter", function () {
         contract.connect(other).requestCountDecryption()
       ).to.be.revertedWith("Only owner can request decryption");
     });
+
+    it("✅ CORRECT: Callback names the request and requester", async function () {
+      const requestId = await requestDecryption();
+
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await contract.queryFilter(contract.filters.CountDecrypted(requestId));
+      expect(events.length).to.equal(1);
+      expect(events[0].args.requester).to.equal(owner.address);
+      expect(events[0].args.decryptedValue).to.equal(2);
+    });
+
+    it("❌ INCORRECT: Callback rejects unknown or replayed requests", async function () {
+      await expect(
+        contract.processCountDecryption(999, 2, [])
+      ).to.be.revertedWith("Unknown or processed decryption request");
+
+      const requestId = await requestDecryption();
+
+      // Unsigned results are rejected by FHE.checkSignatures
+      await expect(contract.processCountDecryption(requestId, 2, [])).to.be.reverted;
+
+      await fhevm.awaitDecryptionOracle();
+      await expect(
+        contract.processCountDecryption(requestId, 2, [])
+      ).to.be.revertedWith("Unknown or processed decryption request");
+    });
   });
 
   describe("FHE Pattern Validation", function () {
@@ -0,0 +1,251 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { BigNumberish } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { PurchaseOrders, SupplierManagement } from "../typechain-types";
+import { DEFAULT_ORG, deploySupplierManagement } from "./fixtures";
+
+/**
+ * Test Suite: Purchase Orders
+ * Category: enterprise
+ * Chapter: encrypted-budgets, privacy-preserving-operations
+ *
+ * This test suite demonstrates:
+ * 1. Encrypted order amounts (externalEuint64 + inputProof)
+ * 2. Encrypted cumulative spend per supplier
+ * 3. Budget caps enforced with FHE.le / FHE.select instead of reverts
+ * 4. Order lifecycle: created, approved, delivered, paid
+ */
+
+const ADD_SUPPLIER = "addSupplier(uint256,string,string,(bytes32,string),uint8,bool)";
+
+// Commitment to an off-chain encrypted contact blob: its keccak256 hash and storage pointer
+const CONTACT = { contentHash: ethers.utils.id("encrypted contact"), pointer: "contacts/example.json" };
+
+// Mirrors PurchaseOrders.OrderStatus
+const OrderStatus = { None: 0, Created: 1, Approved: 2, Delivered: 3, Paid: 4 };
+// Mirrors SupplierManagement.SupplierState
+const SupplierState = { Pending: 0, Approved: 1, Suspended: 2, Archived: 3 };
+const REASON_ONBOARDED = ethers.utils.id("ONBOARDING_COMPLETE");
+
+describe("PurchaseOrders", function () {
+  let suppliers: SupplierManagement;
+  let contract: PurchaseOrders;
+  let admin: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let supplierOwner: SignerWithAddress;
+  let other: SignerWithAddress;
+
+  beforeEach(async function () {
+    [admin, buyer, supplierOwner, other] = await ethers.getSigners();
+
+    ({ contract: suppliers } = await deploySupplierManagement());
+
+    const PurchaseOrdersFactory = await ethers.getContractFactory("PurchaseOrders");
+    contract = await PurchaseOrdersFactory.deploy(suppliers.address);
+    await contract.deployed();
+
+    await suppliers.connect(admin).grantRole(DEFAULT_ORG, await suppliers.PROCUREMENT_MANAGER_ROLE(), buyer.address);
+
+    // Supplier 1 is approved; supplier 2 is still pending
+    await suppliers.connect(supplierOwner)[ADD_SUPPLIER](DEFAULT_ORG, "Box Co", "Packaging", CONTACT, 8, false);
+    await suppliers.connect(supplierOwner)[ADD_SUPPLIER](DEFAULT_ORG, "Wrap Ltd", "Packaging", CONTACT, 7, false);
+    await suppliers.connect(admin).setSupplierState(1, SupplierState.Approved, REASON_ONBOARDED);
+  });
+
+  async function encryptAmount(signer: SignerWithAddress, amount: number | bigint) {
+    return fhevm.createEncryptedInput(contract.address, signer.address).add64(amount).encrypt();
+  }
+
+  async function setBudget(signer: SignerWithAddress, supplierId: BigNumberish, budget: number) {
+    const encrypted = await encryptAmount(signer, budget);
+    return contract.connect(signer).setBudget(supplierId, encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function createOrder(signer: SignerWithAddress, supplierId: number, amount: number | bigint) {
+    const encrypted = await encryptAmount(signer, amount);
+    return contract.connect(signer).createOrder(supplierId, encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function decrypt64(handle: string, signer: SignerWithAddress) {
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, contract.address, signer);
+  }
+
+  async function decryptWithinBudget(orderId: number, signer: SignerWithAddress) {
+    return fhevm.userDecryptEbool(await contract.getOrderWithinBudget(orderId), contract.address, signer);
+  }
+
+  /**
+   * ## Test Group: Budgets
+   */
+  describe("Budgets", function () {
+    it("✅ CORRECT: Manager sets an encrypted budget every buyer role can decrypt", async function () {
+      await expect(setBudget(buyer, 1, 1000)).to.emit(contract, "BudgetSet").withArgs(1, buyer.address);
+
+      expect(await contract.hasBudget(1)).to.be.true;
+      expect(await decrypt64(await contract.getBudget(1), buyer)).to.equal(1000n);
+      expect(await decrypt64(await contract.getBudget(1), admin)).to.equal(1000n);
+      expect(await decrypt64(await contract.getSpend(1), admin)).to.equal(0n);
+    });
+
+    it("✅ CORRECT: Only buyer roles can decrypt the budget", async function () {
+      await setBudget(buyer, 1, 1000);
+
+      let decrypted = true;
+      try {
+        await decrypt64(await contract.getBudget(1), supplierOwner);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.be.false;
+    });
+
+    it("❌ INCORRECT: Accounts without a buyer role cannot set budgets", async function () {
+      await expect(setBudget(other, 1, 1000)).to.be.revertedWith("Only admin or manager can set budgets");
+    });
+
+    it("❌ INCORRECT: Buyer roles only reach their own organization's suppliers", async function () {
+      const extension = await ethers.getContractAt("SupplierManagementExtension", suppliers.address);
+      await extension.connect(other).createOrganization("Other Unit");
+      await suppliers.connect(supplierOwner)[ADD_SUPPLIER](1, "Box Co", "Packaging", CONTACT, 8, false);
+
+      await expect(setBudget(buyer, await extension.supplierIdOf(1, 1), 1000)).to.be.revertedWith(
+        "Only admin or manager can set budgets"
+      );
+    });
+
+    it("❌ INCORRECT: Budgets require a registered supplier", async function () {
+      await expect(setBudget(buyer, 99, 1000)).to.be.revertedWith("Supplier not registered");
+    });
+  });
+
+  /**
+   * ## Test Group: Orders and Spend
+   */
+  describe("Orders and Spend", function () {
+    beforeEach(async function () {
+      await setBudget(buyer, 1, 1000);
+    });
+
+    it("✅ CORRECT: Order within budget is added to the encrypted spend", async function () {
+      await expect(createOrder(buyer, 1, 400)).to.emit(contract, "OrderCreated").withArgs(1, 1, buyer.address);
+
+      const order = await contract.getOrder(1);
+      expect(order.supplierId).to.equal(1);
+      expect(order.buyer).to.equal(buyer.address);
+      expect(order.status).to.equal(OrderStatus.Created);
+
+      expect(await decrypt64(await contract.getOrderAmount(1), buyer)).to.equal(400n);
+      expect(await decrypt64(await contract.getSpend(1), buyer)).to.equal(400n);
+      expect(await decryptWithinBudget(1, buyer)).to.be.true;
+    });
+
+    it("✅ CORRECT: Supplier owner can decrypt their order amount", async function () {
+      await createOrder(buyer, 1, 400);
+      expect(await decrypt64(await contract.getOrderAmount(1), supplierOwner)).to.equal(400n);
+    });
+
+    it("✅ CORRECT: Over-budget order becomes a zero-amount no-op instead of reverting", async function () {
+      await createOrder(buyer, 1, 700);
+      await expect(createOrder(buyer, 1, 400)).to.emit(contract, "OrderCreated");
+
+      expect(await decrypt64(await contract.getOrderAmount(2), buyer)).to.equal(0n);
+      expect(await decrypt64(await contract.getSpend(1), buyer)).to.equal(700n);
+      expect(await decryptWithinBudget(2, buyer)).to.be.false;
+    });
+
+    it("✅ CORRECT: Spend may reach the budget exactly", async function () {
+      await createOrder(buyer, 1, 600);
+      await createOrder(buyer, 1, 400);
+      expect(await decrypt64(await contract.getSpend(1), buyer)).to.equal(1000n);
+    });
+
+    it("✅ CORRECT: Raising the budget keeps the recorded spend", async function () {
+      await createOrder(buyer, 1, 900);
+      await setBudget(admin, 1, 2000);
+      await createOrder(buyer, 1, 500);
+      expect(await decrypt64(await contract.getSpend(1), admin)).to.equal(1400n);
+    });
+
+    it("✅ CORRECT: A budget lowered below the spend is raised to it", async function () {
+      await createOrder(buyer, 1, 600);
+      await setBudget(admin, 1, 100);
+
+      expect(await decrypt64(await contract.getBudget(1), admin)).to.equal(600n);
+      await createOrder(buyer, 1, 1);
+      expect(await decryptWithinBudget(2, buyer)).to.be.false;
+      expect(await decrypt64(await contract.getSpend(1), admin)).to.equal(600n);
+    });
+
+    it("❌ INCORRECT: An amount that would wrap the spend around 2^64 is a zero no-op", async function () {
+      await createOrder(buyer, 1, 100);
+      // 100 + (2^64 - 50) wraps to 50, which is within the budget
+      await createOrder(buyer, 1, 2n ** 64n - 50n);
+
+      expect(await decryptWithinBudget(2, buyer)).to.be.false;
+      expect(await decrypt64(await contract.getOrderAmount(2), buyer)).to.equal(0n);
+      expect(await decrypt64(await contract.getSpend(1), buyer)).to.equal(100n);
+    });
+
+    it("❌ INCORRECT: Accounts without a buyer role cannot create orders", async function () {
+      await expect(createOrder(other, 1, 100)).to.be.revertedWith("Only admin or manager can create orders");
+    });
+
+    it("❌ INCORRECT: Orders require an approved supplier with a budget", async function () {
+      await expect(createOrder(buyer, 2, 100)).to.be.revertedWith("Supplier not approved");
+
+      await suppliers.connect(admin).setSupplierState(2, SupplierState.Approved, REASON_ONBOARDED);
+      await expect(createOrder(buyer, 2, 100)).to.be.revertedWith("No budget for supplier");
+    });
+  });
+
+  /**
+   * ## Test Group: Order Lifecycle
+   */
+  describe("Order Lifecycle", function () {
+    beforeEach(async function () {
+      await setBudget(buyer, 1, 1000);
+      await createOrder(buyer, 1, 400);
+    });
+
+    it("✅ CORRECT: Order moves from created to paid", async function () {
+      await expect(contract.connect(admin).approveOrder(1))
+        .to.emit(contract, "OrderApproved")
+        .withArgs(1, admin.address);
+      await expect(contract.connect(supplierOwner).markDelivered(1))
+        .to.emit(contract, "OrderDelivered")
+        .withArgs(1, 1);
+      await expect(contract.connect(buyer).markPaid(1)).to.emit(contract, "OrderPaid").withArgs(1, buyer.address);
+
+      expect((await contract.getOrder(1)).status).to.equal(OrderStatus.Paid);
+    });
+
+    it("❌ INCORRECT: Steps cannot be skipped or repeated", async function () {
+      await expect(contract.connect(supplierOwner).markDelivered(1)).to.be.revertedWith("Order is not approved");
+      await expect(contract.connect(buyer).markPaid(1)).to.be.revertedWith("Order is not delivered");
+
+      await contract.connect(admin).approveOrder(1);
+      await expect(contract.connect(admin).approveOrder(1)).to.be.revertedWith("Order is not awaiting approval");
+    });
+
+    it("❌ INCORRECT: Only the supplier owner confirms delivery", async function () {
+      await contract.connect(admin).approveOrder(1);
+      await expect(contract.connect(buyer).markDelivered(1)).to.be.revertedWith(
+        "Only supplier owner can confirm delivery"
+      );
+    });
+
+    it("❌ INCORRECT: Only buyer roles approve and pay", async function () {
+      await expect(contract.connect(other).approveOrder(1)).to.be.revertedWith("Only admin or manager can approve");
+
+      await contract.connect(admin).approveOrder(1);
+      await contract.connect(supplierOwner).markDelivered(1);
+      await expect(contract.connect(other).markPaid(1)).to.be.revertedWith("Only admin or manager can pay");
+    });
+
+    it("❌ INCORRECT: Unknown orders cannot be read", async function () {
+      await expect(contract.getOrder(99)).to.be.revertedWith("Order does not exist");
+    });
+  });
+});
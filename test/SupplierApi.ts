@@ -0,0 +1,203 @@
+import { expect } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { ApiErrorBody, createApiServer } from "../src/api";
+import { Page, SupplierClient } from "../src/client";
+import {
+  CategorySummary,
+  IndexedDecryptionRequest,
+  IndexedEvent,
+  IndexedSupplier,
+  IndexerStore,
+  OwnerSummary,
+  SupplierIndexer,
+} from "../src/indexer";
+import { DEFAULT_ORG, deploySupplierManagement } from "./fixtures";
+
+/**
+ * Test Suite: Supplier Index API
+ * Category: enterprise
+ * Chapter: privacy-preserving-operations
+ *
+ * This test suite demonstrates:
+ * 1. Serving indexed supplier data over HTTP without a wallet
+ * 2. Filtering and paginating suppliers, events and decryption requests
+ * 3. Returning encrypted fields only as opaque handles
+ * 4. Revalidating responses with ETags
+ */
+
+interface ApiResponse<T> {
+  status: number;
+  etag?: string;
+  body: T;
+}
+
+describe("SupplierApi", function () {
+  let client: SupplierClient;
+  let store: IndexerStore;
+  let indexer: SupplierIndexer;
+  let server: http.Server;
+  let owner: SignerWithAddress;
+  let baseUrl: string;
+
+  beforeEach(async function () {
+    [, owner] = await ethers.getSigners();
+
+    const { contract, deployBlock: startBlock } = await deploySupplierManagement();
+
+    client = SupplierClient.connect(contract.address, owner, fhevm);
+    const { chainId } = await ethers.provider.getNetwork();
+    store = new IndexerStore(":memory:", { chainId, contract: contract.address });
+    indexer = new SupplierIndexer(contract.address, ethers.provider, store, { startBlock });
+
+    await client.addSuppliers(DEFAULT_ORG, [
+      { name: "Acme", category: "Electronics", rating: 8, isPreferred: true },
+      { name: "Globex", category: "Packaging", rating: 5, isPreferred: false },
+      { name: "Initech", category: "Electronics", rating: 6, isPreferred: false },
+    ]);
+    await indexer.sync();
+
+    server = createApiServer(store);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
+
+  function get<T = unknown>(path: string, headers: http.OutgoingHttpHeaders = {}): Promise<ApiResponse<T>> {
+    return new Promise((resolve, reject) => {
+      http
+        .get(`${baseUrl}${path}`, { headers }, (response) => {
+          let text = "";
+          response.on("data", (chunk) => (text += chunk));
+          response.on("end", () =>
+            resolve({
+              status: response.statusCode!,
+              etag: response.headers.etag,
+              body: text ? JSON.parse(text) : undefined,
+            })
+          );
+        })
+        .on("error", reject);
+    });
+  }
+
+  /**
+   * ## Test Group: Suppliers, Categories and Owners
+   */
+  describe("Suppliers, Categories and Owners", function () {
+    it("✅ CORRECT: Pages through suppliers with pagination metadata", async function () {
+      const first = await get<Page<IndexedSupplier>>("/suppliers?limit=2");
+      expect(first.status).to.equal(200);
+      expect(first.body.items.map((s) => s.name)).to.deep.equal(["Acme", "Globex"]);
+      expect(first.body).to.include({ total: 3, offset: 0, limit: 2, nextOffset: 2 });
+
+      const last = await get<Page<IndexedSupplier>>("/suppliers?limit=2&offset=2");
+      expect(last.body.items.map((s) => s.name)).to.deep.equal(["Initech"]);
+      expect(last.body.nextOffset).to.be.undefined;
+    });
+
+    it("✅ CORRECT: Filters suppliers and summarizes categories and owners", async function () {
+      const electronics = await get<Page<IndexedSupplier>>(`/suppliers?category=Electronics&owner=${owner.address}`);
+      expect(electronics.body.items.map((s) => s.name)).to.deep.equal(["Acme", "Initech"]);
+
+      const categories = await get<{ items: CategorySummary[] }>("/categories?orgId=0");
+      expect(categories.body.items).to.deep.equal([
+        { orgId: "0", category: "Electronics", suppliers: 2 },
+        { orgId: "0", category: "Packaging", suppliers: 1 },
+      ]);
+
+      const owners = await get<{ items: OwnerSummary[] }>("/owners");
+      expect(owners.body.items).to.deep.equal([{ owner: owner.address, suppliers: 3 }]);
+    });
+
+    it("✅ CORRECT: Returns encrypted fields only as opaque handles", async function () {
+      const { body } = await get<IndexedSupplier>("/suppliers/1");
+
+      expect(body.isPreferredHandle).to.equal(await client.contract.isSupplierPreferred(1));
+      expect(body).to.not.have.any.keys("rating", "isPreferred");
+      expect(body.decryptedRating).to.be.null;
+    });
+
+    it("❌ INCORRECT: Unknown suppliers and invalid filters are rejected", async function () {
+      expect((await get("/suppliers/99")).status).to.equal(404);
+      expect((await get("/suppliers?owner=not-an-address")).status).to.equal(400);
+      expect((await get("/suppliers?limit=0")).status).to.equal(400);
+      expect((await get("/events?name=Transfer")).status).to.equal(400);
+    });
+
+    it("❌ INCORRECT: Malformed request targets get a 400 and the server keeps serving", async function () {
+      for (const target of ["//", "//a:b"]) {
+        const { status, body } = await get<ApiErrorBody>(target);
+        expect(status).to.equal(400);
+        expect(body.error).to.equal("Invalid request target");
+      }
+      expect((await get("/suppliers")).status).to.equal(200);
+    });
+  });
+
+  /**
+   * ## Test Group: Event History and Decryption Requests
+   */
+  describe("Event History and Decryption Requests", function () {
+    it("✅ CORRECT: Lists a supplier's event history in chain order", async function () {
+      await client.updateRating(1, 9);
+      await indexer.sync();
+
+      const { body } = await get<Page<IndexedEvent>>("/suppliers/1/events");
+      expect(body.items.map((event) => event.name)).to.deep.equal(["SupplierAdded", "SupplierRatingUpdated"]);
+
+      const ratingUpdates = await get<Page<IndexedEvent>>("/events?name=SupplierRatingUpdated");
+      expect(ratingUpdates.body.total).to.equal(1);
+    });
+
+    it("✅ CORRECT: Tracks decryption requests from pending to fulfilled", async function () {
+      await (await client.contract.requestRatingDecryption(2)).wait();
+      await indexer.sync();
+
+      const pending = await get<Page<IndexedDecryptionRequest>>("/decryption-requests?status=Pending");
+      expect(pending.body.items).to.have.lengthOf(1);
+      expect(pending.body.items[0]).to.include({ supplierId: "2", requester: owner.address, rating: null });
+
+      await fhevm.awaitDecryptionOracle();
+      await indexer.sync();
+
+      expect((await get<Page<IndexedDecryptionRequest>>("/decryption-requests?status=Pending")).body.total).to.equal(0);
+      const fulfilled = await get<Page<IndexedDecryptionRequest>>("/decryption-requests?supplierId=2");
+      expect(fulfilled.body.items[0]).to.include({ status: "Fulfilled", rating: 5 });
+      expect((await get<IndexedSupplier>("/suppliers/2")).body.decryptedRating).to.equal(5);
+    });
+  });
+
+  /**
+   * ## Test Group: Caching and Discovery
+   */
+  describe("Caching and Discovery", function () {
+    it("✅ CORRECT: Answers 304 until new events change the response", async function () {
+      const first = await get("/suppliers");
+      const revalidated = await get("/suppliers", { "If-None-Match": first.etag });
+      expect(revalidated.status).to.equal(304);
+
+      await client.addSupplier(DEFAULT_ORG, { name: "Umbrella", category: "Chemicals", rating: 4, isPreferred: false });
+      await indexer.sync();
+
+      const changed = await get<Page<IndexedSupplier>>("/suppliers", { "If-None-Match": first.etag });
+      expect(changed.status).to.equal(200);
+      expect(changed.etag).to.not.equal(first.etag);
+      expect(changed.body.total).to.equal(4);
+    });
+
+    it("✅ CORRECT: Serves its OpenAPI document", async function () {
+      const { status, body } = await get<{ openapi: string; paths: Record<string, unknown> }>("/openapi.json");
+
+      expect(status).to.equal(200);
+      expect(body.openapi).to.match(/^3\./);
+      expect(body.paths).to.include.all.keys("/suppliers", "/events", "/decryption-requests");
+    });
+  });
+});
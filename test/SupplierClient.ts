@@ -0,0 +1,226 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  SupplierAddedEvent,
+  SupplierClient,
+  SupplierRatingUpdatedEvent,
+  SupplierState,
+  Unsubscribe,
+} from "../src/client";
+import { DEFAULT_ORG, deploySupplierManagement } from "./fixtures";
+
+/**
+ * Test Suite: Supplier Client SDK
+ * Category: enterprise
+ * Chapter: privacy-preserving-operations
+ *
+ * This test suite demonstrates:
+ * 1. Encrypting inputs client-side behind plain add and update calls
+ * 2. EIP-712 user decryption of ratings, preferences and comparison results
+ * 3. Typed, paginated supplier listings
+ * 4. Typed event subscriptions
+ */
+
+describe("SupplierClient", function () {
+  let client: SupplierClient;
+  let outsiderClient: SupplierClient;
+  let owner: any;
+  let outsider: any;
+
+  beforeEach(async function () {
+    [, owner, outsider] = await ethers.getSigners();
+
+    const { contract } = await deploySupplierManagement();
+
+    client = SupplierClient.connect(contract.address, owner, fhevm);
+    outsiderClient = SupplierClient.connect(contract.address, outsider, fhevm);
+  });
+
+  // Resolve with the first event a subscription delivers, then unsubscribe
+  function nextEvent<T>(subscribe: (listener: (event: T) => void) => Unsubscribe): Promise<T> {
+    return new Promise((resolve) => {
+      const unsubscribe = subscribe((event) => {
+        unsubscribe();
+        resolve(event);
+      });
+    });
+  }
+
+  /**
+   * ## Test Group: Adding and Updating Suppliers
+   */
+  describe("Adding and Updating Suppliers", function () {
+    it("✅ CORRECT: Adds a supplier and returns its typed details", async function () {
+      const { supplierId } = await client.addSupplier(DEFAULT_ORG, {
+        name: "Acme",
+        category: "Electronics",
+        rating: 8,
+        isPreferred: true,
+      });
+
+      const supplier = await client.getSupplier(supplierId);
+      expect(supplier.id.toNumber()).to.equal(1);
+      expect(supplier.orgId.toNumber()).to.equal(DEFAULT_ORG);
+      expect(supplier).to.include({ name: "Acme", category: "Electronics", owner: owner.address });
+      expect(supplier.state).to.equal(SupplierState.Pending);
+    });
+
+    it("✅ CORRECT: Adds a batch of suppliers in one transaction", async function () {
+      const ids = await client.addSuppliers(DEFAULT_ORG, [
+        { name: "Acme", category: "Electronics", rating: 8, isPreferred: true },
+        { name: "Globex", category: "Packaging", rating: 5, isPreferred: false },
+      ]);
+
+      expect(ids.map((id) => id.toNumber())).to.deep.equal([1, 2]);
+      expect(await client.decryptRating(ids[1])).to.equal(5);
+    });
+
+    it("✅ CORRECT: Updates rating and preference with encrypted inputs", async function () {
+      const { supplierId } = await client.addSupplier(DEFAULT_ORG, {
+        name: "Acme",
+        category: "Electronics",
+        rating: 8,
+        isPreferred: true,
+      });
+
+      await client.updateRating(supplierId, 3, ethers.utils.id("late deliveries"));
+      await client.updatePreference(supplierId, false);
+
+      expect(await client.decryptRating(supplierId)).to.equal(3);
+      expect(await client.decryptPreferred(supplierId)).to.be.false;
+    });
+
+    it("❌ INCORRECT: Out-of-range ratings are rejected before anything is sent", async function () {
+      let error: unknown;
+      try {
+        await client.addSupplier(DEFAULT_ORG, {
+          name: "Acme",
+          category: "Electronics",
+          rating: 11,
+          isPreferred: false,
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).to.be.instanceOf(RangeError);
+      expect((await client.listSuppliers(DEFAULT_ORG)).total).to.equal(0);
+    });
+  });
+
+  /**
+   * ## Test Group: User Decryption
+   */
+  describe("User Decryption", function () {
+    it("✅ CORRECT: Owner decrypts rating and preference", async function () {
+      const { supplierId } = await client.addSupplier(DEFAULT_ORG, {
+        name: "Acme",
+        category: "Electronics",
+        rating: 9,
+        isPreferred: true,
+      });
+
+      expect(await client.decryptRating(supplierId)).to.equal(9);
+      expect(await client.decryptPreferred(supplierId)).to.be.true;
+    });
+
+    it("✅ CORRECT: Compares ratings and decrypts only the outcome", async function () {
+      const ids = await client.addSuppliers(DEFAULT_ORG, [
+        { name: "Acme", category: "Electronics", rating: 9, isPreferred: true },
+        { name: "Globex", category: "Electronics", rating: 4, isPreferred: false },
+      ]);
+
+      expect(await client.compareRatings(ids[0], ids[1])).to.be.true;
+      expect(await client.compareRatings(ids[1], ids[0])).to.be.false;
+    });
+
+    it("❌ INCORRECT: Accounts without ACL access cannot decrypt", async function () {
+      const { supplierId } = await client.addSupplier(DEFAULT_ORG, {
+        name: "Acme",
+        category: "Electronics",
+        rating: 9,
+        isPreferred: true,
+      });
+
+      let decrypted = true;
+      try {
+        await outsiderClient.decryptRating(supplierId);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.be.false;
+    });
+  });
+
+  /**
+   * ## Test Group: Paginated Listing
+   */
+  describe("Paginated Listing", function () {
+    it("✅ CORRECT: Pages through an organization's suppliers in order", async function () {
+      await client.addSuppliers(
+        DEFAULT_ORG,
+        ["A", "B", "C", "D", "E"].map((name) => ({ name, category: "Electronics", rating: 5, isPreferred: false }))
+      );
+
+      const first = await client.listSuppliers(DEFAULT_ORG, { limit: 2 });
+      expect(first.items.map((supplier) => supplier.name)).to.deep.equal(["A", "B"]);
+      expect(first).to.include({ total: 5, nextOffset: 2 });
+
+      const last = await client.listSuppliers(DEFAULT_ORG, { offset: 4, limit: 2 });
+      expect(last.items.map((supplier) => supplier.name)).to.deep.equal(["E"]);
+      expect(last.nextOffset).to.be.undefined;
+    });
+
+    it("❌ INCORRECT: Invalid page bounds are rejected", async function () {
+      let error: unknown;
+      try {
+        await client.listSuppliers(DEFAULT_ORG, { offset: -1 });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(RangeError);
+    });
+  });
+
+  /**
+   * ## Test Group: Event Subscriptions
+   */
+  describe("Event Subscriptions", function () {
+    beforeEach(function () {
+      // Deliver subscribed events quickly instead of on the default 4s poll
+      ethers.provider.pollingInterval = 100;
+    });
+
+    it("✅ CORRECT: Delivers typed SupplierAdded events", async function () {
+      const added = nextEvent<SupplierAddedEvent>((listener) => client.onSupplierAdded(listener));
+
+      const { supplierId, txHash } = await client.addSupplier(DEFAULT_ORG, {
+        name: "Acme",
+        category: "Electronics",
+        rating: 8,
+        isPreferred: false,
+      });
+
+      const event = await added;
+      expect(event.supplierId).to.equal(supplierId);
+      expect(event).to.include({ name: "Acme", category: "Electronics", owner: owner.address, txHash });
+    });
+
+    it("✅ CORRECT: Filters rating updates by supplier", async function () {
+      const ids = await client.addSuppliers(DEFAULT_ORG, [
+        { name: "Acme", category: "Electronics", rating: 8, isPreferred: false },
+        { name: "Globex", category: "Electronics", rating: 6, isPreferred: false },
+      ]);
+      const updated = nextEvent<SupplierRatingUpdatedEvent>((listener) =>
+        client.onRatingUpdated(listener, { supplierId: ids[1] })
+      );
+
+      await client.updateRating(ids[0], 7);
+      await client.updateRating(ids[1], 9);
+
+      const event = await updated;
+      expect(event.supplierId).to.equal(ids[1]);
+      expect(event.updater).to.equal(owner.address);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { setBalance } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import { ethers } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import {
+  ContactIntegrityError,
+  FileContactStore,
+  contactRecipientOf,
+  fetchContact,
+  publishContact,
+} from "../src/contacts";
+import { SupplierManagement, SupplierManagementExtension } from "../typechain-types";
+import { DEFAULT_ORG, deploySupplierManagement } from "./fixtures";
+
+/**
+ * Test Suite: Off-Chain Supplier Contacts
+ * Category: enterprise
+ * Chapter: privacy-preserving-operations
+ *
+ * This test suite demonstrates:
+ * 1. Encrypting contact details client-side to the owner and decryptor roles
+ * 2. Storing the ciphertext off-chain and committing its hash and pointer on-chain
+ * 3. Verifying a fetched blob against the on-chain hash before decrypting
+ * 4. Re-encrypting and re-committing when the set of readers changes
+ */
+
+const ADD_SUPPLIER = "addSupplier(uint256,string,string,(bytes32,string),uint8,bool)";
+
+const DETAILS = { email: "sales@acme.example", phone: "+1 555 0100", contactName: "Jane Doe" };
+
+describe("SupplierContacts", function () {
+  let contract: SupplierManagement;
+  let extension: SupplierManagementExtension;
+  let store: FileContactStore;
+  let storeDir: string;
+  let admin: any;
+  let owner: any;
+  let auditor: any;
+  let outsider: any;
+
+  beforeEach(async function () {
+    [admin] = await ethers.getSigners();
+
+    // Decrypting needs raw private keys, so the supplier parties are funded local wallets
+    [owner, auditor, outsider] = [0, 1, 2].map(() => ethers.Wallet.createRandom().connect(ethers.provider));
+    for (const wallet of [owner, auditor, outsider]) {
+      await setBalance(wallet.address, ethers.utils.parseEther("10"));
+    }
+
+    ({ contract, extension } = await deploySupplierManagement());
+
+    await contract.connect(admin).grantRole(DEFAULT_ORG, await contract.AUDITOR_ROLE(), auditor.address);
+
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "supplier-contacts-"));
+    store = new FileContactStore(storeDir);
+  });
+
+  afterEach(async function () {
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  async function addSupplierWithContact() {
+    const recipients = [await contactRecipientOf(owner), await contactRecipientOf(auditor)];
+    const commitment = await publishContact(store, DETAILS, recipients);
+    await contract.connect(owner)[ADD_SUPPLIER](DEFAULT_ORG, "Acme", "Electronics", commitment, 8, false);
+    return commitment;
+  }
+
+  async function onChainContact(supplierId: number) {
+    const { contact } = await contract.getSupplier(supplierId);
+    return { contentHash: contact.contentHash, pointer: contact.pointer };
+  }
+
+  /**
+   * ## Test Group: Publishing and Reading Contacts
+   */
+  describe("Publishing and Reading Contacts", function () {
+    it("✅ CORRECT: Owner and auditor decrypt the contact referenced on-chain", async function () {
+      const commitment = await addSupplierWithContact();
+      expect(await onChainContact(1)).to.deep.equal(commitment);
+
+      expect(await fetchContact(store, await onChainContact(1), owner.privateKey)).to.deep.equal(DETAILS);
+      expect(await fetchContact(store, await onChainContact(1), auditor.privateKey)).to.deep.equal(DETAILS);
+    });
+
+    it("✅ CORRECT: Only the hash and pointer are stored on-chain", async function () {
+      await addSupplierWithContact();
+
+      const { contact } = await contract.getSupplier(1);
+      expect(contact.pointer).to.not.contain(DETAILS.email);
+      expect(ethers.utils.toUtf8String(await store.get(contact.pointer))).to.not.contain(DETAILS.email);
+    });
+
+    it("✅ CORRECT: Re-encrypting for a new reader and updating the commitment grants access", async function () {
+      await addSupplierWithContact();
+
+      const recipients = await Promise.all([owner, auditor, outsider].map((wallet) => contactRecipientOf(wallet)));
+      const commitment = await publishContact(store, DETAILS, recipients);
+      await extension.connect(owner).updateSupplierContact(1, commitment);
+
+      expect(await fetchContact(store, await onChainContact(1), outsider.privateKey)).to.deep.equal(DETAILS);
+    });
+
+    it("❌ INCORRECT: Accounts that are not recipients cannot decrypt", async function () {
+      await addSupplierWithContact();
+
+      let decrypted = true;
+      try {
+        await fetchContact(store, await onChainContact(1), outsider.privateKey);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.be.false;
+    });
+
+    it("❌ INCORRECT: A swapped blob fails verification against the on-chain hash", async function () {
+      const commitment = await addSupplierWithContact();
+
+      // Replace the stored blob with a valid envelope for different details
+      const forged = await publishContact(store, { email: "attacker@evil.example" }, [await contactRecipientOf(owner)]);
+      await fs.copyFile(path.join(storeDir, forged.pointer), path.join(storeDir, commitment.pointer));
+
+      let error: unknown;
+      try {
+        await fetchContact(store, await onChainContact(1), owner.privateKey);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(ContactIntegrityError);
+    });
+  });
+});
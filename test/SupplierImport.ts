@@ -0,0 +1,235 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import { ethers, fhevm } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import {
+  CheckpointMismatchError,
+  NO_CONTACT,
+  SupplierRow,
+  SupplierRowError,
+  importSuppliers,
+  parseSupplierCsv,
+  parseSupplierJson,
+} from "../src/import";
+import { SupplierManagement, SupplierManagementExtension } from "../typechain-types";
+import { DEFAULT_ORG, deploySupplierManagement } from "./fixtures";
+
+/**
+ * Test Suite: Batch Supplier Onboarding
+ * Category: enterprise
+ * Chapter: privacy-preserving-operations
+ *
+ * This test suite demonstrates:
+ * 1. Adding many suppliers in one transaction with a single input proof
+ * 2. Validating CSV and JSON rows against the contract's rules before sending
+ * 3. Splitting an import into batches that fit a gas budget
+ * 4. Resuming an interrupted import from its checkpoint file
+ */
+
+const CSV = [
+  "name,category,rating,preferred",
+  "Acme Components,Electronics,9,yes",
+  '"Steel, Inc.",Raw Materials,7,no',
+  "EcoPack,Packaging,5,",
+].join("\n");
+
+function makeRows(count: number): SupplierRow[] {
+  return Array.from({ length: count }, (_, i) => ({
+    line: i + 2,
+    name: `Vendor ${i + 1}`,
+    category: i % 2 === 0 ? "Electronics" : "Packaging",
+    rating: (i % 10) + 1,
+    isPreferred: i % 3 === 0,
+    contact: NO_CONTACT,
+  }));
+}
+
+describe("SupplierImport", function () {
+  let contract: SupplierManagement;
+  let extension: SupplierManagementExtension;
+  let checkpointDir: string;
+  let checkpointFile: string;
+  let owner: any;
+
+  beforeEach(async function () {
+    [, owner] = await ethers.getSigners();
+
+    ({ contract, extension } = await deploySupplierManagement());
+    extension = extension.connect(owner);
+
+    checkpointDir = await fs.mkdtemp(path.join(os.tmpdir(), "supplier-import-"));
+    checkpointFile = path.join(checkpointDir, "vendors.checkpoint.json");
+  });
+
+  afterEach(async function () {
+    await fs.rm(checkpointDir, { recursive: true, force: true });
+  });
+
+  async function encryptBatch(rows: SupplierRow[]) {
+    const input = fhevm.createEncryptedInput(contract.address, owner.address);
+    for (const row of rows) {
+      input.add8(row.rating).addBool(row.isPreferred);
+    }
+    const encrypted = await input.encrypt();
+    const inputs = rows.map((row, i) => ({
+      name: row.name,
+      category: row.category,
+      contact: row.contact,
+      encryptedRating: encrypted.handles[2 * i],
+      encryptedPreferred: encrypted.handles[2 * i + 1],
+    }));
+    return { inputs, inputProof: encrypted.inputProof };
+  }
+
+  function runImport(rows: SupplierRow[], options: { maxGasPerTx?: number; onBatch?: () => void } = {}) {
+    return importSuppliers(extension, rows, {
+      orgId: DEFAULT_ORG,
+      checkpointFile,
+      createEncryptedInput: (contractAddress, userAddress) => fhevm.createEncryptedInput(contractAddress, userAddress),
+      ...options,
+    });
+  }
+
+  async function singleRowGas() {
+    const { inputs, inputProof } = await encryptBatch(makeRows(1));
+    return extension.estimateGas.addSuppliersBatch(DEFAULT_ORG, inputs, inputProof);
+  }
+
+  /**
+   * ## Test Group: Batch Contract Function
+   */
+  describe("Batch Contract Function", function () {
+    it("✅ CORRECT: Adds every row with one input proof", async function () {
+      const rows = makeRows(3);
+      const { inputs, inputProof } = await encryptBatch(rows);
+
+      await expect(extension.addSuppliersBatch(DEFAULT_ORG, inputs, inputProof))
+        .to.emit(contract, "SupplierAdded")
+        .withArgs(DEFAULT_ORG, 1, "Vendor 1", owner.address, rows[0].category, anyValue);
+
+      expect(await contract.getSupplierCount(DEFAULT_ORG)).to.equal(3);
+      for (const [i, row] of rows.entries()) {
+        const supplier = await contract.getSupplier(i + 1);
+        expect(supplier.name).to.equal(row.name);
+        expect(supplier.owner).to.equal(owner.address);
+
+        const handle = await contract.getEncryptedRating(i + 1);
+        const rating = await fhevm.userDecryptEuint(FhevmType.euint8, handle, contract.address, owner);
+        expect(rating).to.equal(BigInt(row.rating));
+      }
+    });
+
+    it("❌ INCORRECT: Empty batches are rejected", async function () {
+      await expect(extension.addSuppliersBatch(DEFAULT_ORG, [], "0x")).to.be.revertedWith("Batch is empty");
+    });
+
+    it("❌ INCORRECT: Batches above MAX_BATCH_SIZE are rejected", async function () {
+      const maxBatchSize = (await extension.MAX_BATCH_SIZE()).toNumber();
+      const { inputs, inputProof } = await encryptBatch(makeRows(maxBatchSize + 1));
+
+      await expect(extension.addSuppliersBatch(DEFAULT_ORG, inputs, inputProof)).to.be.revertedWith("Batch too large");
+    });
+
+    it("❌ INCORRECT: One invalid row reverts the whole batch", async function () {
+      const rows = makeRows(3);
+      rows[1].name = "";
+      const { inputs, inputProof } = await encryptBatch(rows);
+
+      await expect(extension.addSuppliersBatch(DEFAULT_ORG, inputs, inputProof)).to.be.revertedWith(
+        "Name cannot be empty"
+      );
+      expect(await contract.getSupplierCount(DEFAULT_ORG)).to.equal(0);
+    });
+  });
+
+  /**
+   * ## Test Group: Row Validation
+   */
+  describe("Row Validation", function () {
+    it("✅ CORRECT: Parses CSV rows, including quoted fields", async function () {
+      const rows = parseSupplierCsv(CSV);
+
+      expect(rows.map((row) => row.name)).to.deep.equal(["Acme Components", "Steel, Inc.", "EcoPack"]);
+      expect(rows.map((row) => row.isPreferred)).to.deep.equal([true, false, false]);
+      expect(rows[1]).to.include({ line: 3, category: "Raw Materials", rating: 7 });
+    });
+
+    it("❌ INCORRECT: Reports every row the contract would reject", async function () {
+      const csv = ["name,category,rating", "Acme,Electronics,11", ",Packaging,5", "EcoPack,,0"].join("\n");
+
+      let error: unknown;
+      try {
+        parseSupplierCsv(csv);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(SupplierRowError);
+      expect((error as SupplierRowError).issues.map((issue) => issue.line)).to.deep.equal([2, 3, 4, 4]);
+    });
+
+    it("❌ INCORRECT: JSON contacts need a 32-byte hash and a pointer", async function () {
+      const json = JSON.stringify([
+        { name: "Acme", category: "Electronics", rating: 8, contact: { contentHash: "0x1234", pointer: "a.json" } },
+      ]);
+
+      expect(() => parseSupplierJson(json)).to.throw(SupplierRowError, "contact needs a 32-byte contentHash");
+    });
+  });
+
+  /**
+   * ## Test Group: Importing with Checkpoints
+   */
+  describe("Importing with Checkpoints", function () {
+    it("✅ CORRECT: Splits rows into batches that fit the gas budget", async function () {
+      const rows = makeRows(6);
+      const maxGasPerTx = (await singleRowGas()).mul(5).div(2).toNumber();
+
+      const result = await runImport(rows, { maxGasPerTx });
+
+      expect(result.transactions.length).to.be.greaterThan(1);
+      expect(result.supplierIds.map((id) => id.toNumber())).to.deep.equal([1, 2, 3, 4, 5, 6]);
+      expect(await contract.getSupplierCount(DEFAULT_ORG)).to.equal(6);
+    });
+
+    it("✅ CORRECT: Resumes after a failure without importing any row twice", async function () {
+      const rows = makeRows(6);
+      const maxGasPerTx = (await singleRowGas()).mul(5).div(2).toNumber();
+
+      let failed = false;
+      try {
+        await runImport(rows, {
+          maxGasPerTx,
+          onBatch: () => {
+            throw new Error("connection lost");
+          },
+        });
+      } catch {
+        failed = true;
+      }
+      expect(failed).to.be.true;
+      const importedBeforeFailure = (await contract.getSupplierCount(DEFAULT_ORG)).toNumber();
+      expect(importedBeforeFailure).to.be.within(1, 5);
+
+      const result = await runImport(rows, { maxGasPerTx });
+
+      expect(result.resumedFrom).to.equal(importedBeforeFailure);
+      expect(result.supplierIds.length).to.equal(6);
+      expect(await contract.getSupplierCount(DEFAULT_ORG)).to.equal(6);
+    });
+
+    it("❌ INCORRECT: A checkpoint cannot be resumed against a different file", async function () {
+      await runImport(makeRows(2));
+
+      let error: unknown;
+      try {
+        await runImport(makeRows(3));
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(CheckpointMismatchError);
+    });
+  });
+});
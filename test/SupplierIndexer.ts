@@ -0,0 +1,211 @@
+import Database from "better-sqlite3";
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import { ethers, fhevm, network } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import { SupplierClient } from "../src/client";
+import { IndexerStore, ReorgTooDeepError, SCHEMA_VERSION, StoreMismatchError, SupplierIndexer } from "../src/indexer";
+import { DEFAULT_ORG, deploySupplierManagement } from "./fixtures";
+
+/**
+ * Test Suite: Supplier Event Indexer
+ * Category: enterprise
+ * Chapter: privacy-preserving-operations
+ *
+ * This test suite demonstrates:
+ * 1. Replaying supplier events into a local SQLite database
+ * 2. Keeping encrypted fields as opaque handles while indexing public data
+ * 3. Resuming from the checkpoint stored in the database
+ * 4. Rolling back events orphaned by a chain reorganization
+ */
+
+describe("SupplierIndexer", function () {
+  let client: SupplierClient;
+  let store: IndexerStore;
+  let dbDir: string;
+  let dbFile: string;
+  let chainId: number;
+  let startBlock: number;
+
+  beforeEach(async function () {
+    const [, owner] = await ethers.getSigners();
+
+    const { contract, deployBlock } = await deploySupplierManagement();
+    startBlock = deployBlock;
+
+    client = SupplierClient.connect(contract.address, owner, fhevm);
+    chainId = (await ethers.provider.getNetwork()).chainId;
+    dbDir = await fs.mkdtemp(path.join(os.tmpdir(), "supplier-index-"));
+    dbFile = path.join(dbDir, "index.sqlite");
+    store = new IndexerStore(dbFile, { chainId, contract: contract.address });
+  });
+
+  afterEach(async function () {
+    store.close();
+    await fs.rm(dbDir, { recursive: true, force: true });
+  });
+
+  function indexer(confirmations?: number): SupplierIndexer {
+    return new SupplierIndexer(client.address, ethers.provider, store, { startBlock, confirmations });
+  }
+
+  /**
+   * ## Test Group: Replaying Events
+   */
+  describe("Replaying Events", function () {
+    it("✅ CORRECT: Indexes public supplier data with the preference as a handle", async function () {
+      await client.addSuppliers(DEFAULT_ORG, [
+        { name: "Acme", category: "Electronics", rating: 8, isPreferred: true },
+        { name: "Globex", category: "Packaging", rating: 5, isPreferred: false },
+      ]);
+
+      const result = await indexer().sync();
+
+      expect(result.events).to.equal(2);
+      const acme = store.getSupplier("1")!;
+      expect(acme).to.include({ orgId: "0", number: 1, name: "Acme", category: "Electronics" });
+      expect(acme.isPreferredHandle).to.equal(await client.contract.isSupplierPreferred(1));
+      expect(store.listSuppliers({ category: "Packaging" }).items.map((s) => s.name)).to.deep.equal(["Globex"]);
+    });
+
+    it("✅ CORRECT: Folds rating updates, preference updates and decrypted ratings", async function () {
+      const { supplierId } = await client.addSupplier(DEFAULT_ORG, {
+        name: "Acme",
+        category: "Electronics",
+        rating: 8,
+        isPreferred: true,
+      });
+      await client.updateRating(supplierId, 4);
+      await client.updatePreference(supplierId, false);
+      await (await client.contract.requestRatingDecryption(supplierId)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      await indexer().sync();
+
+      const supplier = store.getSupplier(supplierId.toString())!;
+      expect(supplier).to.include({ ratingUpdates: 1, decryptedRating: 4 });
+      expect(supplier.isPreferredHandle).to.equal(await client.contract.isSupplierPreferred(supplierId));
+      expect(store.supplierEvents(supplierId.toString()).map((event) => event.name)).to.deep.equal([
+        "SupplierAdded",
+        "SupplierRatingUpdated",
+        "SupplierPreferenceUpdated",
+        "RatingDecrypted",
+      ]);
+    });
+  });
+
+  /**
+   * ## Test Group: Checkpoints
+   */
+  describe("Checkpoints", function () {
+    it("✅ CORRECT: Resumes from the last indexed block after a restart", async function () {
+      await client.addSupplier(DEFAULT_ORG, { name: "Acme", category: "Electronics", rating: 8, isPreferred: true });
+      const first = await indexer().sync();
+
+      store.close();
+      store = new IndexerStore(dbFile, { chainId, contract: client.address });
+      await client.addSupplier(DEFAULT_ORG, { name: "Globex", category: "Packaging", rating: 5, isPreferred: false });
+      const second = await indexer().sync();
+
+      expect(second.events).to.equal(1);
+      expect(second.checkpoint).to.be.greaterThan(first.checkpoint);
+      expect(store.listSuppliers({ orgId: "0" }).total).to.equal(2);
+    });
+
+    it("✅ CORRECT: Upgrades a version 1 database by replaying events from the start block", async function () {
+      const { supplierId } = await client.addSupplier(DEFAULT_ORG, {
+        name: "Acme",
+        category: "Electronics",
+        rating: 8,
+        isPreferred: true,
+      });
+      await (await client.contract.requestRatingDecryption(supplierId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      await indexer().sync();
+
+      // Rewrite the database as version 1 left it: no decryption request lifecycle indexed
+      store.close();
+      const db = new Database(dbFile);
+      db.exec(`
+        UPDATE meta SET value = '1' WHERE key = 'schema';
+        DELETE FROM events WHERE name = 'RatingDecryptionRequested';
+        DELETE FROM decryption_requests;
+      `);
+      db.close();
+
+      store = new IndexerStore(dbFile, { chainId, contract: client.address });
+      expect(store.checkpoint()).to.be.undefined;
+      const result = await indexer().sync();
+
+      expect(result.events).to.equal(3);
+      expect(store.getSupplier(supplierId.toString())).to.include({ name: "Acme", decryptedRating: 8 });
+      const requests = store.listDecryptionRequests().items;
+      expect(requests.map((request) => request.status)).to.deep.equal(["Fulfilled"]);
+      expect(requests[0].rating).to.equal(8);
+    });
+
+    it("❌ INCORRECT: A database from a newer schema version is rejected", async function () {
+      const db = new Database(dbFile);
+      db.prepare("UPDATE meta SET value = ? WHERE key = 'schema'").run(String(SCHEMA_VERSION + 1));
+      db.close();
+
+      expect(() => new IndexerStore(dbFile, { chainId, contract: client.address })).to.throw(
+        `Unsupported index schema version: ${SCHEMA_VERSION + 1}`
+      );
+    });
+
+    it("❌ INCORRECT: A database built for another contract is rejected", async function () {
+      let error: unknown;
+      try {
+        new IndexerStore(dbFile, { chainId, contract: ethers.constants.AddressZero });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(StoreMismatchError);
+    });
+  });
+
+  /**
+   * ## Test Group: Reorganizations
+   */
+  describe("Reorganizations", function () {
+    it("✅ CORRECT: Rolls back events from orphaned blocks and indexes the new branch", async function () {
+      await client.addSupplier(DEFAULT_ORG, { name: "Acme", category: "Electronics", rating: 8, isPreferred: true });
+      await indexer().sync();
+      const forkPoint = await ethers.provider.getBlockNumber();
+
+      const snapshot = await network.provider.send("evm_snapshot");
+      await client.addSupplier(DEFAULT_ORG, { name: "Orphan", category: "Packaging", rating: 5, isPreferred: false });
+      await indexer().sync();
+      expect(store.getSupplier("2")!.name).to.equal("Orphan");
+
+      // Replace the indexed block with a different one at the same height
+      await network.provider.send("evm_revert", [snapshot]);
+      await client.addSupplier(DEFAULT_ORG, { name: "Globex", category: "Logistics", rating: 6, isPreferred: false });
+      const result = await indexer().sync();
+
+      expect(result.rolledBackTo).to.equal(forkPoint);
+      expect(store.getSupplier("2")).to.include({ name: "Globex", category: "Logistics" });
+      expect(store.supplierEvents("2")).to.have.lengthOf(1);
+    });
+
+    it("❌ INCORRECT: A reorganization deeper than the confirmation depth is reported", async function () {
+      const snapshot = await network.provider.send("evm_snapshot");
+      await client.addSupplier(DEFAULT_ORG, { name: "Acme", category: "Electronics", rating: 8, isPreferred: true });
+      await network.provider.send("hardhat_mine", ["0x5"]);
+      await indexer(2).sync();
+
+      await network.provider.send("evm_revert", [snapshot]);
+      await network.provider.send("hardhat_mine", ["0x7"]);
+
+      let error: unknown;
+      try {
+        await indexer(2).sync();
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(ReorgTooDeepError);
+    });
+  });
+});
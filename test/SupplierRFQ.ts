@@ -0,0 +1,310 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BigNumberish } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { SupplierManagement, SupplierRFQ } from "../typechain-types";
+import { DEFAULT_ORG, deploySupplierManagement } from "./fixtures";
+
+/**
+ * Test Suite: Supplier RFQ
+ * Category: enterprise
+ * Chapter: sealed-bids, privacy-preserving-operations
+ *
+ * This test suite demonstrates:
+ * 1. Sealed encrypted bids (externalEuint64 + inputProof)
+ * 2. Encrypted argmin with FHE.lt / FHE.select
+ * 3. Revealing only the winning price and supplier via async decryption
+ * 4. Authorization against SupplierManagement roles and supplier state
+ */
+
+const ADD_SUPPLIER = "addSupplier(uint256,string,string,(bytes32,string),uint8,bool)";
+
+// Commitment to an off-chain encrypted contact blob: its keccak256 hash and storage pointer
+const CONTACT = { contentHash: ethers.utils.id("encrypted contact"), pointer: "contacts/example.json" };
+
+// Mirrors SupplierRFQ.RFQStatus
+const RFQStatus = { None: 0, Open: 1, Closing: 2, Awarded: 3 };
+// Mirrors SupplierManagement.SupplierState
+const SupplierState = { Pending: 0, Approved: 1, Suspended: 2, Archived: 3 };
+const REASON_ONBOARDED = ethers.utils.id("ONBOARDING_COMPLETE");
+
+describe("SupplierRFQ", function () {
+  let suppliers: SupplierManagement;
+  let contract: SupplierRFQ;
+  let admin: any;
+  let buyer: any;
+  let bidderA: any;
+  let bidderB: any;
+  let bidderC: any;
+  let deadline: number;
+
+  beforeEach(async function () {
+    [admin, buyer, bidderA, bidderB, bidderC] = await ethers.getSigners();
+
+    ({ contract: suppliers } = await deploySupplierManagement());
+
+    const SupplierRFQFactory = await ethers.getContractFactory("SupplierRFQ");
+    contract = await SupplierRFQFactory.deploy(suppliers.address);
+    await contract.deployed();
+
+    await suppliers.connect(admin).grantRole(DEFAULT_ORG, await suppliers.PROCUREMENT_MANAGER_ROLE(), buyer.address);
+
+    // Suppliers 1-3 bid on packaging; supplier 4 is in another category
+    await suppliers.connect(bidderA)[ADD_SUPPLIER](DEFAULT_ORG, "Box Co", "Packaging", CONTACT, 8, false);
+    await suppliers.connect(bidderB)[ADD_SUPPLIER](DEFAULT_ORG, "Wrap Ltd", "Packaging", CONTACT, 7, false);
+    await suppliers.connect(bidderC)[ADD_SUPPLIER](DEFAULT_ORG, "Crate Inc", "Packaging", CONTACT, 6, false);
+    await suppliers.connect(bidderC)[ADD_SUPPLIER](DEFAULT_ORG, "Chip Corp", "Electronics", CONTACT, 9, false);
+    for (const id of [1, 2, 3, 4]) {
+      await suppliers.connect(admin).setSupplierState(id, SupplierState.Approved, REASON_ONBOARDED);
+    }
+    // Each supplier bids from its own address, assigned by the admin
+    await contract.connect(admin).setSupplierBidder(1, bidderA.address);
+    await contract.connect(admin).setSupplierBidder(2, bidderB.address);
+    await contract.connect(admin).setSupplierBidder(3, bidderC.address);
+    await contract.connect(admin).setSupplierBidder(4, bidderC.address);
+
+    deadline = (await time.latest()) + 3600;
+    await contract.connect(buyer).openRFQ(DEFAULT_ORG, "Packaging", deadline);
+  });
+
+  async function submitBid(signer: any, supplierId: BigNumberish, price: number, rfqId = 1) {
+    const encrypted = await fhevm.createEncryptedInput(contract.address, signer.address).add64(price).encrypt();
+    return contract.connect(signer).submitBid(rfqId, supplierId, encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function closeAndAward(rfqId = 1) {
+    await time.increaseTo(deadline + 1);
+    await contract.connect(buyer).closeRFQ(rfqId);
+    await fhevm.awaitDecryptionOracle();
+    return contract.getRFQ(rfqId);
+  }
+
+  /**
+   * ## Test Group: Opening RFQs
+   */
+  describe("Opening RFQs", function () {
+    it("✅ CORRECT: Procurement manager can open an RFQ", async function () {
+      const newDeadline = deadline + 100;
+      await expect(contract.connect(buyer).openRFQ(DEFAULT_ORG, "Electronics", newDeadline))
+        .to.emit(contract, "RFQOpened")
+        .withArgs(2, DEFAULT_ORG, buyer.address, "Electronics", newDeadline);
+
+      const rfq = await contract.getRFQ(2);
+      expect(rfq.orgId).to.equal(DEFAULT_ORG);
+      expect(rfq.buyer).to.equal(buyer.address);
+      expect(rfq.category).to.equal("Electronics");
+      expect(rfq.status).to.equal(RFQStatus.Open);
+      expect(rfq.bidCount).to.equal(0);
+    });
+
+    it("❌ INCORRECT: Accounts without a buyer role cannot open RFQs", async function () {
+      await expect(contract.connect(bidderA).openRFQ(DEFAULT_ORG, "Packaging", deadline)).to.be.revertedWith(
+        "Only admin or manager can open RFQs"
+      );
+    });
+
+    it("❌ INCORRECT: Deadline must be in the future", async function () {
+      await expect(contract.connect(buyer).openRFQ(DEFAULT_ORG, "Packaging", await time.latest())).to.be.revertedWith(
+        "Deadline must be in the future"
+      );
+    });
+
+    it("❌ INCORRECT: Unknown RFQs cannot be read", async function () {
+      await expect(contract.getRFQ(99)).to.be.revertedWith("RFQ does not exist");
+    });
+  });
+
+  /**
+   * ## Test Group: Sealed Bids
+   */
+  describe("Sealed Bids", function () {
+    it("✅ CORRECT: Supplier's bidder can submit an encrypted bid", async function () {
+      await expect(submitBid(bidderA, 1, 500))
+        .to.emit(contract, "BidSubmitted")
+        .withArgs(1, 1, bidderA.address);
+
+      expect(await contract.hasBid(1, 1)).to.be.true;
+      expect((await contract.getRFQ(1)).bidCount).to.equal(1);
+    });
+
+    it("✅ CORRECT: Only the bidder can decrypt their bid", async function () {
+      await submitBid(bidderA, 1, 500);
+      const handle = await contract.getBid(1, 1);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, contract.address, bidderA)).to.equal(500n);
+
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEuint(FhevmType.euint64, handle, contract.address, buyer);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.be.false;
+    });
+
+    it("❌ INCORRECT: A supplier can only bid once", async function () {
+      await submitBid(bidderA, 1, 500);
+      await expect(submitBid(bidderA, 1, 400)).to.be.revertedWith("Supplier already bid");
+    });
+
+    it("❌ INCORRECT: Cannot bid for another supplier", async function () {
+      await expect(submitBid(bidderB, 1, 400)).to.be.revertedWith("Only supplier's bidder can bid");
+    });
+
+    it("❌ INCORRECT: Supplier must be in the RFQ category", async function () {
+      await expect(submitBid(bidderC, 4, 400)).to.be.revertedWith("Supplier not in RFQ category");
+    });
+
+    it("❌ INCORRECT: Supplier must belong to the RFQ's organization", async function () {
+      // bidderA sets up another organization with an approved packaging supplier of its own
+      const extension = await ethers.getContractAt("SupplierManagementExtension", suppliers.address);
+      await extension.connect(bidderA).createOrganization("Other Unit");
+      await suppliers.connect(bidderA)[ADD_SUPPLIER](1, "Box Co", "Packaging", CONTACT, 8, false);
+      const supplierId = await extension.supplierIdOf(1, 1);
+      await suppliers.connect(bidderA).setSupplierState(supplierId, SupplierState.Approved, REASON_ONBOARDED);
+
+      await expect(submitBid(bidderA, supplierId, 400)).to.be.revertedWith("Supplier not in RFQ organization");
+    });
+
+    it("❌ INCORRECT: Supplier must be approved", async function () {
+      await suppliers.connect(bidderA)[ADD_SUPPLIER](DEFAULT_ORG, "New Box Co", "Packaging", CONTACT, 5, false);
+      await expect(submitBid(bidderA, 5, 400)).to.be.revertedWith("Supplier not approved");
+    });
+
+    it("❌ INCORRECT: Unregistered suppliers cannot bid", async function () {
+      await expect(submitBid(bidderA, 99, 400)).to.be.revertedWith("Supplier not registered");
+    });
+
+    it("❌ INCORRECT: Bids after the deadline are rejected", async function () {
+      await time.increaseTo(deadline + 1);
+      await expect(submitBid(bidderA, 1, 400)).to.be.revertedWith("Bidding deadline passed");
+    });
+  });
+
+  /**
+   * ## Test Group: Supplier Bidders
+   */
+  describe("Supplier Bidders", function () {
+    let importedId: number;
+
+    beforeEach(async function () {
+      // The buyer registers a supplier on its behalf, e.g. in a batch import
+      await suppliers.connect(buyer)[ADD_SUPPLIER](DEFAULT_ORG, "Imported Boxes", "Packaging", CONTACT, 7, false);
+      importedId = 5;
+      await suppliers.connect(admin).setSupplierState(importedId, SupplierState.Approved, REASON_ONBOARDED);
+    });
+
+    it("✅ CORRECT: Admin assigns the supplier's own address as bidder", async function () {
+      const [, , , , , supplier] = await ethers.getSigners();
+      await expect(contract.connect(admin).setSupplierBidder(importedId, supplier.address))
+        .to.emit(contract, "SupplierBidderSet")
+        .withArgs(importedId, supplier.address, admin.address);
+
+      expect(await contract.supplierBidders(importedId)).to.equal(supplier.address);
+      await expect(submitBid(supplier, importedId, 450))
+        .to.emit(contract, "BidSubmitted")
+        .withArgs(1, importedId, supplier.address);
+    });
+
+    it("✅ CORRECT: Bidder can hand bidding over to another address", async function () {
+      const [, , , , , supplier, newKey] = await ethers.getSigners();
+      await contract.connect(admin).setSupplierBidder(importedId, supplier.address);
+      await contract.connect(supplier).setSupplierBidder(importedId, newKey.address);
+
+      await expect(submitBid(supplier, importedId, 450)).to.be.revertedWith("Only supplier's bidder can bid");
+      await submitBid(newKey, importedId, 450);
+      expect(await contract.hasBid(1, importedId)).to.be.true;
+    });
+
+    it("❌ INCORRECT: Registering buyer cannot bid for the supplier", async function () {
+      await expect(submitBid(buyer, importedId, 1)).to.be.revertedWith("Only supplier's bidder can bid");
+    });
+
+    it("❌ INCORRECT: Buyers cannot be assigned as bidders", async function () {
+      await expect(contract.connect(admin).setSupplierBidder(importedId, buyer.address)).to.be.revertedWith(
+        "Buyer cannot bid"
+      );
+      await expect(contract.connect(admin).setSupplierBidder(importedId, admin.address)).to.be.revertedWith(
+        "Buyer cannot bid"
+      );
+    });
+
+    it("❌ INCORRECT: Others cannot set a supplier's bidder", async function () {
+      await expect(contract.connect(buyer).setSupplierBidder(importedId, buyer.address)).to.be.revertedWith(
+        "Only admin or bidder can set bidder"
+      );
+      await expect(contract.connect(bidderA).setSupplierBidder(importedId, bidderA.address)).to.be.revertedWith(
+        "Only admin or bidder can set bidder"
+      );
+    });
+
+    it("❌ INCORRECT: Unregistered suppliers cannot get a bidder", async function () {
+      await expect(contract.connect(admin).setSupplierBidder(99, bidderA.address)).to.be.revertedWith(
+        "Supplier not registered"
+      );
+    });
+  });
+
+  /**
+   * ## Test Group: Closing and Award
+   */
+  describe("Closing and Award", function () {
+    it("✅ CORRECT: Lowest bid wins and only the winner is revealed", async function () {
+      await submitBid(bidderA, 1, 500);
+      await submitBid(bidderB, 2, 300);
+      await submitBid(bidderC, 3, 400);
+
+      const rfq = await closeAndAward();
+      expect(rfq.status).to.equal(RFQStatus.Awarded);
+      expect(rfq.winningSupplierId).to.equal(2);
+      expect(rfq.winningPrice).to.equal(300);
+    });
+
+    it("✅ CORRECT: Award event names the winning supplier and price", async function () {
+      await submitBid(bidderA, 1, 250);
+      await submitBid(bidderB, 2, 300);
+
+      await closeAndAward();
+
+      const events = await contract.queryFilter(contract.filters.RFQAwarded(1));
+      expect(events.length).to.equal(1);
+      expect(events[0].args.supplierId).to.equal(1);
+      expect(events[0].args.price).to.equal(250);
+    });
+
+    it("✅ CORRECT: Ties keep the earliest bid", async function () {
+      await submitBid(bidderB, 2, 300);
+      await submitBid(bidderA, 1, 300);
+
+      const rfq = await closeAndAward();
+      expect(rfq.winningSupplierId).to.equal(2);
+    });
+
+    it("❌ INCORRECT: Cannot close before the deadline", async function () {
+      await submitBid(bidderA, 1, 500);
+      await expect(contract.connect(buyer).closeRFQ(1)).to.be.revertedWith("Bidding still open");
+    });
+
+    it("❌ INCORRECT: Only the buyer can close", async function () {
+      await submitBid(bidderA, 1, 500);
+      await time.increaseTo(deadline + 1);
+      await expect(contract.connect(admin).closeRFQ(1)).to.be.revertedWith("Only buyer can close");
+    });
+
+    it("❌ INCORRECT: Cannot close an RFQ without bids", async function () {
+      await time.increaseTo(deadline + 1);
+      await expect(contract.connect(buyer).closeRFQ(1)).to.be.revertedWith("No bids submitted");
+    });
+
+    it("❌ INCORRECT: Award callback rejects unknown requests", async function () {
+      await expect(contract.processAward(999, 1, 0, [])).to.be.revertedWith("Unknown award request");
+    });
+
+    it("❌ INCORRECT: Closed RFQs accept no further bids", async function () {
+      await submitBid(bidderA, 1, 500);
+      await closeAndAward();
+      await expect(submitBid(bidderB, 2, 100)).to.be.revertedWith("RFQ is not open");
+    });
+  });
+});
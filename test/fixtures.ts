@@ -0,0 +1,29 @@
+import { ethers } from "hardhat";
+import { SupplierManagement, SupplierManagementExtension } from "../typechain-types";
+
+// Organization 0 is created at deployment with the deployer as admin; its supplier IDs are 1, 2, 3, ...
+export const DEFAULT_ORG = 0;
+
+export interface SupplierManagementFixture {
+  contract: SupplierManagement;
+  /** Extension functions are called at the SupplierManagement address */
+  extension: SupplierManagementExtension;
+  /** Block of the SupplierManagement deployment, where indexing starts */
+  deployBlock: number;
+}
+
+/**
+ * Deploy the extension and a SupplierManagement delegating to it, from the first signer
+ */
+export async function deploySupplierManagement(): Promise<SupplierManagementFixture> {
+  const ExtensionFactory = await ethers.getContractFactory("SupplierManagementExtension");
+  const implementation = await ExtensionFactory.deploy();
+  await implementation.deployed();
+
+  const SupplierManagementFactory = await ethers.getContractFactory("SupplierManagement");
+  const contract = await SupplierManagementFactory.deploy(implementation.address);
+  await contract.deployed();
+  const deployBlock = (await contract.deployTransaction.wait()).blockNumber;
+
+  return { contract, extension: ExtensionFactory.attach(contract.address), deployBlock };
+}